@@ -0,0 +1,116 @@
+import type { RGB } from './color'
+
+/**
+ * A CSS font weight as used by {@link apcaMinFontSizes}
+ */
+export type FontWeight = 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900
+
+/**
+ * Minimum font sizes in px per font weight for a given APCA Lc,
+ * null if the contrast is too low for text of that weight
+ */
+export type APCAFontSizes = Record<FontWeight, number|null>
+
+// APCA 0.0.98G-4g constants
+const MAIN_TRC = 2.4
+const COEFFICIENTS = { r: 0.2126729, g: 0.7151522, b: 0.0721750 }
+const NORMAL_BACKGROUND = 0.56
+const NORMAL_TEXT = 0.57
+const REVERSE_TEXT = 0.62
+const REVERSE_BACKGROUND = 0.65
+const BLACK_THRESHOLD = 0.022
+const BLACK_CLAMP = 1.414
+const SCALE = 1.14
+const LOW_OFFSET = 0.027
+const LOW_CLIP = 0.1
+const DELTA_Y_MIN = 0.0005
+
+/**
+ * Minimum font sizes in px for weights 100 to 900 per Lc in steps of 5 from Lc 30 on,
+ * based on the APCA font lookup table 0.1.7 (G), null means not for text
+ */
+const FONT_SIZES: [number, (number|null)[]][] = [
+	[0, [null, null, null, null, null, null, null, null, null]],
+	[30, [null, null, 120, 108, 108, 96, 72, 72, 72]],
+	[35, [null, 120, 108, 96, 72, 60, 48, 48, 48]],
+	[40, [120, 108, 96, 60, 48, 42, 32, 32, 32]],
+	[45, [108, 96, 72, 42, 32, 28, 24, 24, 24]],
+	[50, [96, 72, 60, 32, 28, 24, 21, 21, 21]],
+	[55, [80, 60, 48, 28, 24, 21, 18, 18, 18]],
+	[60, [72, 48, 42, 24, 21, 18, 16, 16, 18]],
+	[65, [68, 46, 32, 21.75, 19, 17, 15, 16, 18]],
+	[70, [64, 44, 28, 19.5, 18, 16, 14.5, 16, 18]],
+	[75, [60, 42, 24, 18, 16, 15, 14, 16, 18]],
+	[80, [56, 38.25, 23, 17.25, 15.81, 14.81, 14, 16, 18]],
+	[85, [52, 34.5, 22, 16.5, 15.625, 14.625, 14, 16, 18]],
+	[90, [48, 32, 21, 16, 15.5, 14.5, 14, 16, 18]],
+	[95, [45, 28, 19.5, 15.5, 15, 14, 13.5, 16, 18]],
+	[100, [42, 26.5, 18.5, 15, 14.5, 13.5, 13, 16, 18]],
+	[105, [39, 25, 18, 14.5, 14, 13, 12, 16, 18]],
+	[110, [36, 24, 18, 14, 13, 12, 11, 16, 18]],
+	[115, [34.5, 22.5, 17.25, 12.5, 11.875, 11.25, 10.625, 14.5, 16.5]],
+	[120, [33, 21, 16.5, 11, 10.75, 10.5, 10.25, 13, 15]],
+	[125, [32, 20, 16, 10, 10, 10, 10, 12, 14]],
+]
+
+/**
+ * Get the screen luminance of an sRGB color as used by APCA, 0 to 1
+ */
+export function apcaLuminance(rgb: RGB): number {
+	return COEFFICIENTS.r * Math.pow(rgb.r / 255, MAIN_TRC) +
+	       COEFFICIENTS.g * Math.pow(rgb.g / 255, MAIN_TRC) +
+	       COEFFICIENTS.b * Math.pow(rgb.b / 255, MAIN_TRC)
+}
+
+/**
+ * Get the APCA lightness contrast (Lc) of text on a background from their APCA luminances
+ * Positive for dark text on a light background, negative for light text on a dark background
+ */
+export function apcaContrast(textY: number, backgroundY: number): number {
+	// Soft clamp near black to account for flare
+	const softClamp = (y: number) => y > BLACK_THRESHOLD ? y : y + Math.pow(BLACK_THRESHOLD - y, BLACK_CLAMP)
+	
+	const text = softClamp(textY),
+		background = softClamp(backgroundY)
+	
+	if (Math.abs(background - text) < DELTA_Y_MIN) {
+		return 0
+	}
+	
+	if (background > text) {
+		const sapc = (Math.pow(background, NORMAL_BACKGROUND) - Math.pow(text, NORMAL_TEXT)) * SCALE
+		
+		return sapc < LOW_CLIP ? 0 : (sapc - LOW_OFFSET) * 100
+	}
+	
+	const sapc = (Math.pow(background, REVERSE_BACKGROUND) - Math.pow(text, REVERSE_TEXT)) * SCALE
+	
+	return sapc > -LOW_CLIP ? 0 : (sapc + LOW_OFFSET) * 100
+}
+
+/**
+ * Get the minimum font sizes per weight for an APCA Lc, regardless of polarity
+ * Lc is rounded down to the next step of 5, so recommendations err on the side of larger text
+ */
+export function apcaMinFontSizes(lc: number): APCAFontSizes {
+	const absolute = Math.abs(lc)
+	let sizes = FONT_SIZES[0][1]
+	
+	for (const [minLc, row] of FONT_SIZES) {
+		if (absolute >= minLc) {
+			sizes = row
+		}
+	}
+	
+	return {
+		100: sizes[0],
+		200: sizes[1],
+		300: sizes[2],
+		400: sizes[3],
+		500: sizes[4],
+		600: sizes[5],
+		700: sizes[6],
+		800: sizes[7],
+		900: sizes[8],
+	}
+}
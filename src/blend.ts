@@ -0,0 +1,121 @@
+/**
+ * A blend mode from the W3C Compositing and Blending spec, as used by CSS mix-blend-mode
+ * https://www.w3.org/TR/compositing-1/#blending
+ */
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten'
+	| 'color-dodge' | 'color-burn' | 'hard-light' | 'soft-light' | 'difference' | 'exclusion'
+	| 'hue' | 'saturation' | 'color' | 'luminosity'
+
+type Channels = [number, number, number]
+
+/**
+ * Blend the channels of a source onto a backdrop, all channels between 0 and 1, ignoring alpha
+ */
+export function blendChannels(backdrop: Channels, source: Channels, mode: BlendMode): Channels {
+	switch (mode) {
+		case 'hue':
+			return setLuminosity(setSaturation(source, saturation(backdrop)), luminosity(backdrop))
+		case 'saturation':
+			return setLuminosity(setSaturation(backdrop, saturation(source)), luminosity(backdrop))
+		case 'color':
+			return setLuminosity(source, luminosity(backdrop))
+		case 'luminosity':
+			return setLuminosity(backdrop, luminosity(source))
+		default:
+			return backdrop.map((channel, i) => blendSeparable(channel, source[i], mode)) as Channels
+	}
+}
+
+function blendSeparable(cb: number, cs: number, mode: BlendMode): number {
+	switch (mode) {
+		case 'multiply':
+			return cb * cs
+		case 'screen':
+			return cb + cs - cb * cs
+		case 'overlay':
+			return blendSeparable(cs, cb, 'hard-light')
+		case 'darken':
+			return Math.min(cb, cs)
+		case 'lighten':
+			return Math.max(cb, cs)
+		case 'color-dodge':
+			if (cb == 0) {
+				return 0
+			}
+			
+			return cs == 1 ? 1 : Math.min(1, cb / (1 - cs))
+		case 'color-burn':
+			if (cb == 1) {
+				return 1
+			}
+			
+			return cs == 0 ? 0 : 1 - Math.min(1, (1 - cb) / cs)
+		case 'hard-light':
+			return cs <= 0.5
+				? blendSeparable(cb, 2 * cs, 'multiply')
+				: blendSeparable(cb, 2 * cs - 1, 'screen')
+		case 'soft-light': {
+			if (cs <= 0.5) {
+				return cb - (1 - 2 * cs) * cb * (1 - cb)
+			}
+			
+			const d = cb <= 0.25 ? ((16 * cb - 12) * cb + 4) * cb : Math.sqrt(cb)
+			
+			return cb + (2 * cs - 1) * (d - cb)
+		}
+		case 'difference':
+			return Math.abs(cb - cs)
+		case 'exclusion':
+			return cb + cs - 2 * cb * cs
+		default:
+			return cs
+	}
+}
+
+function luminosity([r, g, b]: Channels): number {
+	return 0.3 * r + 0.59 * g + 0.11 * b
+}
+
+function saturation(channels: Channels): number {
+	return Math.max(...channels) - Math.min(...channels)
+}
+
+function setLuminosity(channels: Channels, l: number): Channels {
+	const d = l - luminosity(channels)
+	
+	return clipColor(channels.map(channel => channel + d) as Channels)
+}
+
+/**
+ * Bring channels back into 0 to 1 while keeping the luminosity
+ */
+function clipColor(channels: Channels): Channels {
+	const l = luminosity(channels),
+		min = Math.min(...channels),
+		max = Math.max(...channels)
+	
+	if (min < 0) {
+		channels = channels.map(channel => l + (channel - l) * l / (l - min)) as Channels
+	}
+	
+	if (max > 1) {
+		channels = channels.map(channel => l + (channel - l) * (1 - l) / (max - l)) as Channels
+	}
+	
+	return channels
+}
+
+function setSaturation(channels: Channels, s: number): Channels {
+	const order = [0, 1, 2].sort((a, b) => channels[a] - channels[b]),
+		[minIndex, midIndex, maxIndex] = order,
+		min = channels[minIndex],
+		max = channels[maxIndex],
+		result: Channels = [0, 0, 0]
+	
+	if (max > min) {
+		result[midIndex] = (channels[midIndex] - min) * s / (max - min)
+		result[maxIndex] = s
+	}
+	
+	return result
+}
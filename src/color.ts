@@ -1,17 +1,30 @@
+import { NAMED_COLORS } from './namedColors'
+import { FontWeight, apcaContrast, apcaLuminance, apcaMinFontSizes } from './apca'
+import { CMCWeights, DeltaEMethod, deltaE2000, deltaE76, deltaE94, deltaECMC, deltaEOK } from './deltaE'
+import { ColorScale, ScaleOptions } from './scale'
+import { ColorVisionDeficiency, colorVisionMatrix } from './colorVision'
+import { BlendMode, blendChannels } from './blend'
+import { LINEAR_SRGB_TO_XYZ, PredefinedColorSpace, XYZ_TO_LINEAR_SRGB, isPredefinedColorSpace, linearToSrgb, multiplyMatrix, predefinedToXyz, predefinedWhitePoint, srgbToLinear, xyzToPredefined } from './colorSpaces'
+import { ColorTemperature, KelvinLocus, chromaticityToTemperature, kelvinToChromaticity } from './temperature'
+import { Spectrum, SpectrumOptions, StandardObserver, emissionToXyz, illuminantWhitePoint, reflectanceToXyz, wavelengthToXyz } from './spectral'
+import { Palette, PaletteOptions, extractPalette } from './palette'
+import { QuantizeOptions, QuantizedImage, quantizePixels } from './quantize'
+
 /**
  * An RGB color
+ * Channels are unrounded floats, they are only rounded for hex and CSS strings.
  */
 export interface RGB {
 	/**
-	 * Red, 0 to 255
+	 * Red, 0 to 255, unrounded
 	 */
 	r: number
 	/**
-	 * Green, 0 to 255
+	 * Green, 0 to 255, unrounded
 	 */
 	g: number
 	/**
-	 * Blue, 0 to 255
+	 * Blue, 0 to 255, unrounded
 	 */
 	b: number
 }
@@ -34,6 +47,95 @@ export interface HSL {
 	l: number
 }
 
+/**
+ * An HSV (also called HSB) color
+ */
+export interface HSV {
+	/**
+	 * Hue, 0 to 1 relative to 360
+	 */
+	h: number
+	/**
+	 * Saturation, 0 to 1
+	 */
+	s: number
+	/**
+	 * Value (brightness), 0 to 1
+	 */
+	v: number
+}
+
+/**
+ * An HWB color
+ */
+export interface HWB {
+	/**
+	 * Hue, 0 to 1 relative to 360
+	 */
+	h: number
+	/**
+	 * Whiteness, 0 to 1
+	 */
+	w: number
+	/**
+	 * Blackness, 0 to 1
+	 */
+	b: number
+}
+
+/**
+ * A CMYK color for print
+ */
+export interface CMYK {
+	/**
+	 * Cyan, 0 to 1
+	 */
+	c: number
+	/**
+	 * Magenta, 0 to 1
+	 */
+	m: number
+	/**
+	 * Yellow, 0 to 1
+	 */
+	y: number
+	/**
+	 * Black (key), 0 to 1
+	 */
+	k: number
+}
+
+/**
+ * Options for converting a color into {@link CMYK}
+ */
+export interface CMYKOptions {
+	/**
+	 * How black is generated from the gray component shared by cyan, magenta and yellow:
+	 *  - naive: replace all of it with black, the classic 1 - max(R, G, B) formula
+	 *  - ucr: under-color removal, only replace it in shadows darker than ucrThreshold
+	 *  - gcr: gray-component replacement, replace the grayReplacement share of it everywhere
+	 *
+	 * Defaults to naive
+	 */
+	blackGeneration?: 'naive' | 'ucr' | 'gcr'
+	
+	/**
+	 * Share of the gray component replaced by black for gcr, 0 to 1, defaults to 0.8
+	 */
+	grayReplacement?: number
+	
+	/**
+	 * Gray component from which on black is generated for ucr, 0 to 1, defaults to 0.5
+	 */
+	ucrThreshold?: number
+	
+	/**
+	 * Maximum total ink coverage, 0 to 4 (e.g. 3 for 300%), defaults to 4
+	 * Cyan, magenta and yellow are reduced proportionally to meet it
+	 */
+	inkLimit?: number
+}
+
 /**
  * A YUV (YPbPr) color
  */
@@ -52,9 +154,291 @@ export interface YUV {
 	v: number
 }
 
+/**
+ * An OKLab color
+ */
+export interface OKLab {
+	/**
+	 * Perceived lightness, 0 to 1
+	 */
+	l: number
+	/**
+	 * Green-red axis, roughly -0.4 to 0.4
+	 */
+	a: number
+	/**
+	 * Blue-yellow axis, roughly -0.4 to 0.4
+	 */
+	b: number
+}
+
+/**
+ * An OKLCH color, the polar form of {@link OKLab}
+ */
+export interface OKLCH {
+	/**
+	 * Perceived lightness, 0 to 1
+	 */
+	l: number
+	/**
+	 * Chroma, 0 to roughly 0.4
+	 */
+	c: number
+	/**
+	 * Hue, 0 to 1 relative to 360
+	 */
+	h: number
+}
+
+/**
+ * A CIE XYZ color
+ */
+export interface XYZ {
+	/**
+	 * X, 0 to roughly 1
+	 */
+	x: number
+	/**
+	 * Luminance, 0 to 1
+	 */
+	y: number
+	/**
+	 * Z, 0 to roughly 1
+	 */
+	z: number
+}
+
+/**
+ * A CIELAB color
+ */
+export interface Lab {
+	/**
+	 * Lightness, 0 to 100
+	 */
+	l: number
+	/**
+	 * Green-red axis, roughly -128 to 127
+	 */
+	a: number
+	/**
+	 * Blue-yellow axis, roughly -128 to 127
+	 */
+	b: number
+}
+
+/**
+ * A CIELCh color, the polar form of {@link Lab}
+ */
+export interface LCh {
+	/**
+	 * Lightness, 0 to 100
+	 */
+	l: number
+	/**
+	 * Chroma, 0 to roughly 150
+	 */
+	c: number
+	/**
+	 * Hue, 0 to 1 relative to 360
+	 */
+	h: number
+}
+
+/**
+ * A reference white for XYZ and Lab values
+ * D50 is used by ICC profiles, print and CSS' lab(), D65 is the white of sRGB
+ */
+export type WhitePoint = 'D50' | 'D65'
+
+/**
+ * Resolves keywords that depend on context, like "currentColor" or CSS system colors such as "Canvas",
+ * into a color or any string {@link Color.fromString} understands. Return null for unknown keywords.
+ */
+export type KeywordResolver = (keyword: string) => Color|string|null
+
+/**
+ * A WCAG 2.x conformance level for contrast
+ */
+export type WCAGLevel = 'AA' | 'AAA'
+
+/**
+ * Text size for WCAG 2.x contrast requirements
+ * Large text is at least 18pt (24px), or 14pt (18.66px) if bold
+ */
+export type TextSize = 'normal' | 'large'
+
+/**
+ * A color space with a hue to rotate in, HSL or the perceptual OKLCH and CIELCh
+ */
+export type HueSpace = 'hsl' | 'oklch' | 'lch'
+
+/**
+ * A color space colors can be interpolated in
+ */
+export type InterpolationSpace = 'srgb' | 'srgb-linear' | 'hsl' | 'lab' | 'lch' | 'oklab' | 'oklch'
+
+/**
+ * How hues are interpolated, as defined by CSS Color 4
+ *  - shorter: take the shorter arc
+ *  - longer: take the longer arc
+ *  - increasing: always go clockwise
+ *  - decreasing: always go counter-clockwise
+ */
+export type HueInterpolation = 'shorter' | 'longer' | 'increasing' | 'decreasing'
+
+/**
+ * Options for {@link Color.interpolate} and {@link Color.steps}
+ */
+export interface InterpolationOptions {
+	/**
+	 * Color space to interpolate in, defaults to oklab like CSS
+	 */
+	space?: InterpolationSpace
+	
+	/**
+	 * Hue interpolation method for polar spaces, defaults to shorter
+	 */
+	hue?: HueInterpolation
+	
+	/**
+	 * Interpolate with premultiplied alpha, so transparent colors don't bleed into the result, defaults to true
+	 */
+	premultiplied?: boolean
+}
+
+/**
+ * A Porter-Duff compositing operator, the source is placed on the backdrop
+ *  - over: source on top of the backdrop
+ *  - in: source where the backdrop is
+ *  - out: source where the backdrop isn't
+ *  - atop: source on top of the backdrop, only where the backdrop is
+ *  - xor: source and backdrop where the other one isn't
+ */
+export type CompositeOperator = 'over' | 'in' | 'out' | 'atop' | 'xor'
+
+/**
+ * A color space whose gamut can be checked and mapped into
+ */
+export type GamutSpace = 'srgb' | 'display-p3' | 'rec2020'
+
+/**
+ * How colors outside of a gamut are brought into it
+ *  - clip: clamp the RGB channels, fast but may shift hue and lightness
+ *  - css4: the CSS Color 4 algorithm, reduces OKLCH chroma until clipping is no longer noticeable
+ *  - chroma-reduction: reduce OKLCH chroma until the color is in gamut, keeping lightness and hue
+ */
+export type GamutMappingMethod = 'clip' | 'css4' | 'chroma-reduction'
+
+/**
+ * Options for {@link Color.toGamut}
+ */
+export interface ToGamutOptions {
+	/**
+	 * Gamut mapping method, defaults to css4
+	 */
+	method?: GamutMappingMethod
+}
+
+/**
+ * Options for {@link Color.tonalScale}
+ */
+export interface TonalScaleOptions {
+	/**
+	 * Names of the steps from lightest to darkest, their values position them on the ramp,
+	 * defaults to 50, 100, 200 … 900, 950
+	 */
+	steps?: number[]
+	
+	/**
+	 * Step the base color is pinned to, must be one of the steps, defaults to the step closest to its lightness
+	 */
+	baseStep?: number
+	
+	/**
+	 * OKLCH lightness of the lightest step, 0 to 1, defaults to 0.97
+	 */
+	lightest?: number
+	
+	/**
+	 * OKLCH lightness of the darkest step, 0 to 1, defaults to 0.25
+	 */
+	darkest?: number
+	
+	/**
+	 * Shape of the lightness curve from the lightest (0) to the darkest (1) step,
+	 * either an exponent (1 is linear, above 1 keeps more light steps) or an easing function, defaults to 1
+	 */
+	curve?: number | ((t: number) => number)
+	
+	/**
+	 * How much chroma fades towards the ends of the ramp, 0 keeps the base chroma, 1 fades out completely, defaults to 0.6
+	 */
+	chromaEasing?: number
+}
+
+/**
+ * Options for {@link Color.ensureContrast}
+ */
+export interface EnsureContrastOptions {
+	/**
+	 * Color space whose lightness is adjusted while hue and saturation/chroma are kept,
+	 * hsl like darken() and lighten() or the perceptual oklch, defaults to oklch
+	 */
+	space?: 'hsl' | 'oklch'
+}
+
+/**
+ * Options for comparing colors by Delta E in {@link Color.areSimilar}
+ */
+export interface SimilarityOptions {
+	/**
+	 * Maximum Delta E for two colors to be considered similar,
+	 * e.g. 2.3 for a just noticeable difference in CIE76 or roughly 0.02 for OK
+	 */
+	maxDeltaE: number
+	
+	/**
+	 * Delta E formula, defaults to CIEDE2000
+	 */
+	method?: DeltaEMethod
+}
+
+/**
+ * The components a {@link Color} can be constructed from, only one is needed
+ * Also used to cache the other representations, which are calculated lazily.
+ */
+interface ColorComponents {
+	hex?: string|null
+	rgb?: RGB|null
+	hsl?: HSL|null
+	hsv?: HSV|null
+	hwb?: HWB|null
+	cmyk?: CMYK|null
+	yuv?: YUV|null
+	oklab?: OKLab|null
+	oklch?: OKLCH|null
+	xyz?: XYZ|null
+	xyzD50?: XYZ|null
+	lab?: Lab|null
+	lch?: LCh|null
+}
+
+/**
+ * Frozen copies of {@link ColorComponents}, as stored in a {@link Color}
+ */
+type FrozenComponents = { [K in keyof ColorComponents]?: Readonly<ColorComponents[K]> }
+
+// Priority of the components when picking the source of a color
+const COMPONENT_KEYS: (keyof ColorComponents)[] = [
+	'hex', 'rgb', 'hsl', 'hsv', 'hwb', 'cmyk', 'yuv', 'oklab', 'oklch', 'xyz', 'xyzD50', 'lab', 'lch'
+]
+
+// Largest distance of a channel to a whole 8-bit value for an exact named color match
+const NAME_TOLERANCE = 1e-6
+
 export enum ColorType {
 	/**
-	 * Indicates a CSS-RGB string, e.g. "rgb(255, 128, 0)"
+	 * Indicates a CSS-RGB string, e.g. "rgb(255, 128, 0)" or "rgb(255 128 0 / 50%)"
 	 */
 	rgb,
 	
@@ -64,7 +448,7 @@ export enum ColorType {
 	rgba,
 	
 	/**
-	 * Indicates a CSS-HSL string, e.g. "hsl(160, 96%, 42%)"
+	 * Indicates a CSS-HSL string, e.g. "hsl(160, 96%, 42%)" or "hsl(160deg 96% 42% / 0.5)"
 	 */
 	hsl,
 	
@@ -86,7 +470,47 @@ export enum ColorType {
 	/**
 	 * Indicates a named color or some other browser-usable color definition, like CSS definitions á la url() or gradients
 	 */
-	str
+	str,
+	
+	/**
+	 * Indicates a CSS-OKLab string, e.g. "oklab(62.8% 0.22 0.13 / 0.5)"
+	 */
+	oklab,
+	
+	/**
+	 * Indicates a CSS-OKLCH string, e.g. "oklch(62.8% 0.26 29.2deg / 0.5)"
+	 */
+	oklch,
+	
+	/**
+	 * Indicates a CSS-Lab string, e.g. "lab(54.3% 80.8 69.9 / 0.5)"
+	 */
+	lab,
+	
+	/**
+	 * Indicates a CSS-LCh string, e.g. "lch(54.3% 106.8 40.9deg / 0.5)"
+	 */
+	lch,
+	
+	/**
+	 * Indicates a CSS named color, e.g. "rebeccapurple" or "transparent"
+	 */
+	named,
+	
+	/**
+	 * Indicates a CSS-HWB string, e.g. "hwb(160 2% 18% / 0.5)"
+	 */
+	hwb,
+	
+	/**
+	 * Indicates a CSS device-cmyk string, e.g. "device-cmyk(0 81% 81% 30%)"
+	 */
+	cmyk,
+	
+	/**
+	 * Indicates a CSS color() string, e.g. "color(display-p3 1 0.5 0 / 0.5)"
+	 */
+	color
 }
 
 /**
@@ -99,48 +523,221 @@ export enum ColorType {
 export class Color {
 	public static readonly PERCEIVED_BRIGHTNESS_THRESHOLD = 155
 	
-	public static readonly WHITE = Color.fromHex('#ffffff')
-	public static readonly BLACK = Color.fromHex('#000000')
-	public static readonly TRANSPARENT = Color.fromHSL({ h: 0, s: 0, l: 0 }, 0) as Color
-	
-	protected hexContainer: string|null = null
-	protected rgbContainer: RGB|null = null
-	protected hslContainer: HSL|null = null
-	protected yuvContainer: YUV|null = null
-	public alpha: number
-	
 	/**
-	 * Create a color from a hex string, with or without leading #
+	 * Minimum WCAG 2.x contrast ratios per level and text size
 	 */
-	public static fromHex(hex: string): Color {
-		let normalizedHex = Color.normalizeHex(hex)
-		
-		if (!normalizedHex) {
-			throw new Error('Invalid hex value: ' + hex)
-		}
-		
-		return new Color(normalizedHex, null, null, null, 1)
+	public static readonly WCAG_MIN_CONTRAST: Record<WCAGLevel, Record<TextSize, number>> = {
+		AA: { normal: 4.5, large: 3 },
+		AAA: { normal: 7, large: 4.5 },
 	}
 	
 	/**
-	 * Create a color from an RGB object
+	 * OKLCH chroma below which a color is considered achromatic and its hue is 0
 	 */
-	public static fromRGB(rgb: RGB, alpha: number = 1): Color {
-		return new Color(null, rgb, null, null, alpha)
-	}
+	public static readonly OKLCH_ACHROMATIC_CHROMA = 0.000004
 	
 	/**
-	 * Create a color from an HSL object
+	 * Just noticeable difference in OKLab used by CSS Color 4 gamut mapping,
+	 * clipping is accepted once it changes the color by less than this
 	 */
-	public static fromHSL(hsl: HSL, alpha: number = 1): Color {
-		return new Color(null, null, hsl, null, alpha)
-	}
+	public static readonly GAMUT_MAPPING_JND = 0.02
+	
+	// Precision of the chroma search when mapping into a gamut
+	private static readonly GAMUT_MAPPING_EPSILON = 0.0001
+	
+	// Tolerance for channels slightly outside of 0 to 1 caused by floating point errors
+	private static readonly GAMUT_EPSILON = 0.000001
+	
+	/**
+	 * LCh chroma below which a color is considered achromatic and its hue is 0
+	 */
+	public static readonly LCH_ACHROMATIC_CHROMA = 0.0015
+	
+	/**
+	 * XYZ coordinates of the supported reference whites, Y normalized to 1
+	 */
+	public static readonly WHITE_POINTS: Record<WhitePoint, XYZ> = {
+		D50: { x: 0.3457 / 0.3585, y: 1, z: (1 - 0.3457 - 0.3585) / 0.3585 },
+		D65: { x: 0.3127 / 0.3290, y: 1, z: (1 - 0.3127 - 0.3290) / 0.3290 },
+	}
+	
+	public static readonly WHITE = Color.fromHex('#ffffff')
+	public static readonly BLACK = Color.fromHex('#000000')
+	public static readonly TRANSPARENT = Color.fromHSL({ h: 0, s: 0, l: 0 }, 0) as Color
+	
+	/**
+	 * Frozen representations of this color, all but the source are calculated when first needed
+	 */
+	protected readonly containers: FrozenComponents = {}
+	
+	/**
+	 * The representation this color was created from
+	 */
+	protected readonly source: keyof ColorComponents
+	
+	private static namesByHex: Record<string, string>|null = null
+	public readonly alpha: number
+	
+	/**
+	 * Create a color from a hex string, with or without leading #
+	 * Alpha is taken from 4- and 8-digit hex strings unless passed explicitly
+	 */
+	public static fromHex(hex: string, alpha?: number): Color {
+		let normalizedHex = Color.normalizeHex(hex)
+		
+		if (!normalizedHex) {
+			throw new Error('Invalid hex value: ' + hex)
+		}
+		
+		if (alpha === undefined) {
+			alpha = normalizedHex.length == 8 ? parseInt(normalizedHex.substring(6, 8), 16) / 255 : 1
+		}
+		
+		return new Color({ hex: normalizedHex.substring(0, 6) }, alpha)
+	}
+	
+	/**
+	 * Create a color from an RGB object
+	 */
+	public static fromRGB(rgb: RGB, alpha: number = 1): Color {
+		return new Color({ rgb }, alpha)
+	}
+	
+	/**
+	 * Create a color from an HSL object
+	 */
+	public static fromHSL(hsl: HSL, alpha: number = 1): Color {
+		return new Color({ hsl }, alpha)
+	}
+	
+	/**
+	 * Create a color from an HSV (HSB) object
+	 */
+	public static fromHSV(hsv: HSV, alpha: number = 1): Color {
+		return new Color({ hsv }, alpha)
+	}
+	
+	/**
+	 * Create a color from an HWB object
+	 */
+	public static fromHWB(hwb: HWB, alpha: number = 1): Color {
+		return new Color({ hwb }, alpha)
+	}
+	
+	/**
+	 * Create a color from a CMYK object
+	 */
+	public static fromCMYK(cmyk: CMYK, alpha: number = 1): Color {
+		return new Color({ cmyk }, alpha)
+	}
 	
 	/**
 	 * Create a color from an YUV object
 	 */
 	public static fromYUV(yuv: YUV, alpha: number = 1): Color {
-		return new Color(null, null, null, yuv, alpha)
+		return new Color({ yuv }, alpha)
+	}
+	
+	/**
+	 * Create a color from an OKLab object
+	 */
+	public static fromOKLab(oklab: OKLab, alpha: number = 1): Color {
+		return new Color({ oklab }, alpha)
+	}
+	
+	/**
+	 * Create a color from an OKLCH object
+	 */
+	public static fromOKLCH(oklch: OKLCH, alpha: number = 1): Color {
+		return new Color({ oklch }, alpha)
+	}
+	
+	/**
+	 * Create a color from a CIE XYZ object relative to a white point, D65 by default
+	 */
+	public static fromXYZ(xyz: XYZ, alpha: number = 1, whitePoint: WhitePoint = 'D65'): Color {
+		return whitePoint == 'D50'
+			? new Color({ xyzD50: xyz }, alpha)
+			: new Color({ xyz }, alpha)
+	}
+	
+	/**
+	 * Create a color from a CIELAB object relative to a white point, D50 by default
+	 */
+	public static fromLab(lab: Lab, alpha: number = 1, whitePoint: WhitePoint = 'D50'): Color {
+		return whitePoint == 'D50'
+			? new Color({ lab }, alpha)
+			: new Color({ xyz: Color.labToXyz(lab, 'D65') }, alpha)
+	}
+	
+	/**
+	 * Create a color from a CIELCh object relative to a white point, D50 by default
+	 */
+	public static fromLCh(lch: LCh, alpha: number = 1, whitePoint: WhitePoint = 'D50'): Color {
+		return whitePoint == 'D50'
+			? new Color({ lch }, alpha)
+			: Color.fromLab(Color.lchToLab(lch), alpha, whitePoint)
+	}
+	
+	/**
+	 * Create the color of a light source with a color temperature, as bright as possible in sRGB
+	 *
+	 * @param {number}          kelvin  1000K to 15000K, 4000K to 25000K for daylight
+	 * @param {number}          alpha
+	 * @param {KelvinLocus}     locus   Black body radiator (planckian, default) or daylight
+	 */
+	public static fromKelvin(kelvin: number, alpha: number = 1, locus: KelvinLocus = 'planckian'): Color {
+		return Color.fromLight(Color.chromaticityToXyz(kelvinToChromaticity(kelvin, locus)), alpha)
+	}
+	
+	/**
+	 * Create a color from a measured reflectance or emission spectrum
+	 * Surfaces are adapted from the illuminant to D65, so a perfect white reflector is white under every illuminant.
+	 * Light sources are as bright as possible in sRGB.
+	 *
+	 * @param {Spectrum}            spectrum    [wavelength in nm, value] pairs
+	 * @param {number}              alpha
+	 * @param {SpectrumOptions}     options
+	 */
+	public static fromSpectrum(spectrum: Spectrum, alpha: number = 1, options: SpectrumOptions = {}): Color {
+		const { type = 'reflectance', illuminant = 'D65', observer = 'CIE1931' } = options
+		
+		if (type == 'emission') {
+			return Color.fromLight(emissionToXyz(spectrum, observer), alpha)
+		}
+		
+		const xyz = Color.adaptXyzToWhite(
+			reflectanceToXyz(spectrum, illuminant, observer),
+			illuminantWhitePoint(illuminant, observer),
+			Color.WHITE_POINTS.D65
+		)
+		
+		return Color.fromXYZ(xyz, alpha)
+	}
+	
+	/**
+	 * Create the color of monochromatic light, as bright as possible in sRGB
+	 * Spectral colors are outside of sRGB, use {@link toGamut} to display them.
+	 *
+	 * @param {number}              wavelength  380 to 780 nm
+	 * @param {number}              alpha
+	 * @param {StandardObserver}    observer    Defaults to CIE1931
+	 */
+	public static fromWavelength(wavelength: number, alpha: number = 1, observer: StandardObserver = 'CIE1931'): Color {
+		return Color.fromLight(wavelengthToXyz(wavelength, observer), alpha)
+	}
+	
+	/**
+	 * Scale a light source so its brightest sRGB channel is 1, black stays black
+	 */
+	private static fromLight(xyz: XYZ, alpha: number): Color {
+		const max = Math.max(...multiplyMatrix(XYZ_TO_LINEAR_SRGB, [xyz.x, xyz.y, xyz.z]))
+		
+		if (!(max > 0)) {
+			return Color.fromXYZ({ x: 0, y: 0, z: 0 }, alpha)
+		}
+		
+		return Color.fromXYZ({ x: xyz.x / max, y: xyz.y / max, z: xyz.z / max }, alpha)
 	}
 	
 	/**
@@ -149,11 +746,23 @@ export class Color {
 	 *  - hex (with or without #)
 	 *  - rgb(), rgba()
 	 *  - hsl(), hsla()
+	 *  - hwb()
+	 *  - oklab(), oklch()
+	 *  - lab(), lch()
+	 *  - device-cmyk()
+	 *  - CSS named colors, including "transparent"
+	 *
+	 * Functions accept both the legacy comma-separated syntax and the
+	 * CSS Color Level 4 space-separated syntax with an optional "/ alpha",
+	 * including percentages, hue units and the "none" keyword.
+	 *
+	 * Other keywords, like "currentColor" or system colors, are passed to resolveKeyword if given.
 	 *
 	 * @param {string} str
+	 * @param {KeywordResolver} resolveKeyword
 	 * @returns {Color}
 	 */
-	public static fromString(str: string|Color|null): Color|null {
+	public static fromString(str: string|Color|null, resolveKeyword?: KeywordResolver): Color|null {
 		if (str === null) {
 			return null
 		}
@@ -163,63 +772,132 @@ export class Color {
 		}
 		
 		let type = Color.detectType(str)
-		let stringMatches: string[]
+		
+		if (type === ColorType.hex) {
+			return Color.fromHex(str)
+		} else if (type === ColorType.named) {
+			return Color.fromName(str)
+		} else if (type === ColorType.str) {
+			return resolveKeyword ? Color.resolveKeyword(str, resolveKeyword) : null
+		} else if (type === null) {
+			return null
+		}
+		
+		// color() has the color space as its first argument
+		let channelCount = type === ColorType.cmyk || type === ColorType.color ? 4 : 3,
+			args = Color.parseFunctionArguments(str, channelCount)
+		
+		if (!args) {
+			return null
+		}
+		
+		let alpha = args.length > channelCount ? Color.parseAlpha(args[channelCount]) : 1
 		
 		switch (type) {
-			case ColorType.hex:
-				return Color.fromHex(str)
+			case ColorType.rgb:
+			case ColorType.rgba:
+				let [r, g, b] = args.map(arg => Color.parseNumber(arg, 255))
+				
+				if (!Color.areNumbers(r, g, b, alpha)) {
+					return null
+				}
+				
+				return Color.fromRGB({
+					r: Color.clampChannel(r),
+					g: Color.clampChannel(g),
+					b: Color.clampChannel(b)
+				}, alpha)
 			
 			case ColorType.hsl:
-				stringMatches = str.match(/hsl\(([\d.]+), ?([\d.]+)%, ?([\d.]+)%\)/)
+			case ColorType.hsla:
+				let h = Color.parseHue(args[0]),
+					s = Color.parseNumber(args[1], 100) / 100,
+					l = Color.parseNumber(args[2], 100) / 100
 				
-				if (!stringMatches) {
+				if (!Color.areNumbers(h, s, l, alpha)) {
 					return null
 				}
 				
 				return Color.fromHSL({
-					h: (parseInt(stringMatches[1]) % 360) / 360,
-					s: parseFloat(stringMatches[2]) / 100,
-					l: parseFloat(stringMatches[3]) / 100
-				})
+					h,
+					s: Color.clamp(s, 0, 1),
+					l: Color.clamp(l, 0, 1)
+				}, alpha)
 			
-			case ColorType.hsla:
-				stringMatches = str.match(/hsla\(([\d.]+), ?([\d.]+)%, ?([\d.]+)%, ?([\d.]+%?)\)/)
+			case ColorType.hwb:
+				let hwbHue = Color.parseHue(args[0]),
+					whiteness = Color.parseNumber(args[1], 100) / 100,
+					blackness = Color.parseNumber(args[2], 100) / 100
 				
-				if (!stringMatches) {
+				if (!Color.areNumbers(hwbHue, whiteness, blackness, alpha)) {
 					return null
 				}
 				
-				return Color.fromHSL({
-					h: (parseInt(stringMatches[1]) % 360) / 360,
-					s: parseFloat(stringMatches[2]) / 100,
-					l: parseFloat(stringMatches[3]) / 100
-				}, this.parseAlpha(stringMatches[4]))
+				return Color.fromHWB({
+					h: hwbHue,
+					w: Color.clamp(whiteness, 0, 1),
+					b: Color.clamp(blackness, 0, 1)
+				}, alpha)
 			
-			case ColorType.rgb:
-				stringMatches = str.match(/rgb\((\d+), ?(\d+), ?(\d+)\)/)
+			case ColorType.cmyk:
+				let [c, m, y, k] = args.map(arg => Color.clamp(Color.parseNumber(arg, 1), 0, 1))
 				
-				if (!stringMatches) {
+				if (!Color.areNumbers(c, m, y, k, alpha)) {
 					return null
 				}
 				
-				return Color.fromRGB({
-					r: parseInt(stringMatches[1]),
-					g: parseInt(stringMatches[2]),
-					b: parseInt(stringMatches[3])
-				})
+				return Color.fromCMYK({ c, m, y, k }, alpha)
 			
-			case ColorType.rgba:
-				stringMatches = str.match(/rgba\((\d+), ?(\d+), ?(\d+), ?([\d.]+%?)\)/)
+			case ColorType.oklab:
+			case ColorType.lab:
+				let labReference = type === ColorType.oklab ? { l: 1, ab: 0.4 } : { l: 100, ab: 125 }
+				
+				let lightness = Color.parseNumber(args[0], labReference.l),
+					a = Color.parseNumber(args[1], labReference.ab),
+					bAxis = Color.parseNumber(args[2], labReference.ab)
 				
-				if (!stringMatches) {
+				if (!Color.areNumbers(lightness, a, bAxis, alpha)) {
 					return null
 				}
 				
-				return Color.fromRGB({
-					r: parseInt(stringMatches[1]),
-					g: parseInt(stringMatches[2]),
-					b: parseInt(stringMatches[3])
-				}, this.parseAlpha(stringMatches[4]))
+				let lab = { l: Color.clamp(lightness, 0, labReference.l), a, b: bAxis }
+				
+				return type === ColorType.oklab
+					? Color.fromOKLab(lab, alpha)
+					: Color.fromLab(lab, alpha)
+			
+			case ColorType.oklch:
+			case ColorType.lch:
+				let lchReference = type === ColorType.oklch ? { l: 1, c: 0.4 } : { l: 100, c: 150 }
+				
+				let lchLightness = Color.parseNumber(args[0], lchReference.l),
+					chroma = Color.parseNumber(args[1], lchReference.c),
+					hue = Color.parseHue(args[2])
+				
+				if (!Color.areNumbers(lchLightness, chroma, hue, alpha)) {
+					return null
+				}
+				
+				let lch = { l: Color.clamp(lchLightness, 0, lchReference.l), c: Math.max(chroma, 0), h: hue }
+				
+				return type === ColorType.oklch
+					? Color.fromOKLCH(lch, alpha)
+					: Color.fromLCh(lch, alpha)
+			
+			case ColorType.color:
+				let space = args[0].toLowerCase(),
+					channels = args.slice(1, 4).map(arg => Color.parseNumber(arg, 1))
+				
+				if (space === 'xyz') {
+					space = 'xyz-d65'
+				}
+				
+				// color() has no legacy comma syntax
+				if (str.includes(',') || !isPredefinedColorSpace(space) || !Color.areNumbers(...channels, alpha)) {
+					return null
+				}
+				
+				return Color.fromColorFunction(space, [channels[0], channels[1], channels[2]], alpha)
 			
 			default:
 				return null
@@ -227,15 +905,163 @@ export class Color {
 	}
 	
 	/**
-	 * Parse a numeric string or percentage into a number
+	 * Create a color from the channels of a predefined color space as used by CSS color()
+	 * Colors outside of sRGB keep their full precision in XYZ, but are clipped when converted to sRGB.
+	 *
+	 * @param {PredefinedColorSpace}        space
+	 * @param {[number, number, number]}    channels    0 to 1 for RGB spaces
+	 * @param {number}                      alpha
+	 */
+	public static fromColorFunction(space: PredefinedColorSpace, channels: [number, number, number], alpha: number = 1): Color {
+		const xyz = predefinedToXyz(space, channels)
+		
+		return predefinedWhitePoint(space) == 'D50'
+			? new Color({ xyzD50: xyz }, alpha)
+			: new Color({ xyz }, alpha)
+	}
+	
+	/**
+	 * Create a color from a CSS named color, case-insensitive
+	 * Returns null if the name is unknown
+	 */
+	public static fromName(name: string): Color|null {
+		let normalized = name.trim().toLowerCase()
+		
+		if (normalized === 'transparent') {
+			return Color.fromRGB({ r: 0, g: 0, b: 0 }, 0)
+		}
+		
+		if (!NAMED_COLORS.hasOwnProperty(normalized)) {
+			return null
+		}
+		
+		return Color.fromHex(NAMED_COLORS[normalized])
+	}
+	
+	/**
+	 * Resolve a context-dependent keyword using the passed resolver
+	 */
+	private static resolveKeyword(str: string, resolveKeyword: KeywordResolver): Color|null {
+		let keyword = str.trim()
+		
+		// Only identifiers can be keywords, everything else is no color at all
+		if (!/^-?[a-z][a-z0-9-]*$/i.test(keyword)) {
+			return null
+		}
+		
+		let resolved = resolveKeyword(keyword)
+		
+		if (resolved === null || resolved === undefined) {
+			return null
+		}
+		
+		return Color.fromString(resolved)
+	}
+	
+	/**
+	 * Split the arguments of a CSS color function into its channels and optional alpha
+	 * Supports both "rgb(1, 2, 3, 0.5)" and "rgb(1 2 3 / 0.5)"
+	 */
+	private static parseFunctionArguments(str: string, channelCount: number = 3): string[]|null {
+		let matches = str.trim().match(/^[a-z-]+\((.*)\)$/i)
+		
+		if (!matches) {
+			return null
+		}
+		
+		let inner = matches[1].trim(),
+			args: string[]
+		
+		if (inner.includes(',')) {
+			args = inner.split(',').map(arg => arg.trim())
+		} else {
+			let [channels, alpha, ...rest] = inner.split('/')
+			
+			if (rest.length) {
+				return null
+			}
+			
+			args = channels.trim().split(/\s+/)
+			
+			// Without commas, alpha can only be passed after a slash
+			if (args.length != channelCount) {
+				return null
+			}
+			
+			if (alpha !== undefined) {
+				args.push(alpha.trim())
+			}
+		}
+		
+		if (args.length < channelCount || args.length > channelCount + 1 || args.some(arg => !arg.length || /\s/.test(arg))) {
+			return null
+		}
+		
+		return args
+	}
+	
+	/**
+	 * Parse a CSS number, percentage or "none" into a number
+	 * Percentages are relative to the passed reference, e.g. 50% of 255
+	 */
+	private static parseNumber(token: string, percentageReference: number): number {
+		if (token.toLowerCase() === 'none') {
+			return 0
+		}
+		
+		let matches = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/i)
+		
+		if (!matches) {
+			return NaN
+		}
+		
+		let value = parseFloat(matches[1])
+		
+		return matches[2] ? value / 100 * percentageReference : value
+	}
+	
+	/**
+	 * Parse a CSS hue with an optional unit (deg, rad, grad, turn) into 0 to 1 relative to 360
+	 */
+	private static parseHue(token: string): number {
+		if (token.toLowerCase() === 'none') {
+			return 0
+		}
+		
+		let matches = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/i)
+		
+		if (!matches) {
+			return NaN
+		}
+		
+		let value = parseFloat(matches[1]),
+			turns: number
+		
+		switch ((matches[2] || 'deg').toLowerCase()) {
+			case 'rad': turns = value / (2 * Math.PI); break
+			case 'grad': turns = value / 400; break
+			case 'turn': turns = value; break
+			default: turns = value / 360
+		}
+		
+		return Color.modulo(turns, 1)
+	}
+	
+	/**
+	 * Parse a numeric string, percentage or "none" into an alpha value between 0 and 1
 	 * e.g.: "0.1", "10%" -> 0.1
 	 */
 	private static parseAlpha(match: string): number {
-		if (match.endsWith('%')) {
-			return parseFloat(match.substring(0, match.length - 1)) / 100
-		}
+		let alpha = Color.parseNumber(match, 1)
 		
-		return parseFloat(match)
+		return isNaN(alpha) ? NaN : Color.clamp(alpha, 0, 1)
+	}
+	
+	/**
+	 * Check that none of the passed values is NaN
+	 */
+	private static areNumbers(...values: number[]): boolean {
+		return !values.some(value => isNaN(value))
 	}
 	
 	/**
@@ -255,40 +1081,35 @@ export class Color {
 		})
 	}
 	
-	protected constructor(
-		hex: string|null = null,
-		rgb: RGB|null = null,
-		hsl: HSL|null = null,
-		yuv: YUV|null = null,
-		alpha: number = 1
-	) {
-		if (!(hex || rgb || hsl || yuv)) {
+	/**
+	 * Instances of Color itself are frozen, instances of subclasses are not
+	 */
+	protected constructor(components: ColorComponents = {}, alpha: number = 1) {
+		// The first component set is the source, in the order of ColorComponents
+		const source = COMPONENT_KEYS.find(key => !!components[key])
+		
+		if (!source) {
 			throw new Error('One component must be set')
 		}
 		
-		if (hex) {
-			this.hexContainer = hex
-		} else if (rgb) {
-			this.rgbContainer = {
-				r: rgb.r,
-				g: rgb.g,
-				b: rgb.b
-			}
-		} else if (hsl) {
-			this.hslContainer = {
-				h: hsl.h,
-				s: hsl.s,
-				l: hsl.l,
-			}
-		} else if (yuv) {
-			this.yuvContainer = {
-				y: yuv.y,
-				u: yuv.u,
-				v: yuv.v
-			}
-		}
+		const component = components[source]!
 		
+		// Copy the component, so changing the passed object doesn't change this color
+		this.storeComponent(source, typeof component == 'string' ? component : Object.freeze({ ...component }))
+		this.source = source
 		this.alpha = alpha
+		
+		// Subclasses still have to set their own fields, they can freeze themselves at the end of their constructor
+		if (new.target === Color) {
+			Object.freeze(this)
+		}
+	}
+	
+	/**
+	 * Store a representation of this color, only used while constructing
+	 */
+	private storeComponent<K extends keyof ColorComponents>(key: K, component: FrozenComponents[K]) {
+		this.containers[key] = component
 	}
 	
 	// Operations
@@ -313,16 +1134,24 @@ export class Color {
 	
 	/**
 	 * Check if this color is lighter than the passed color
+	 * Semi-transparent colors are compared on the background.
+	 *
+	 * @param {Color} color
+	 * @param {Color} background    Defaults to white
 	 */
-	public isLighterThan(color: Color): boolean {
-		return this.perceivedBrightness > color.perceivedBrightness
+	public isLighterThan(color: Color, background: Color = Color.WHITE): boolean {
+		return this.brightnessOn(background) > color.brightnessOn(background)
 	}
 	
 	/**
 	 * Check if this color is darker than the passed color
+	 * Semi-transparent colors are compared on the background.
+	 *
+	 * @param {Color} color
+	 * @param {Color} background    Defaults to white
 	 */
-	public isDarkerThan(color: Color): boolean {
-		return this.perceivedBrightness < color.perceivedBrightness
+	public isDarkerThan(color: Color, background: Color = Color.WHITE): boolean {
+		return this.brightnessOn(background) < color.brightnessOn(background)
 	}
 	
 	/**
@@ -345,57 +1174,183 @@ export class Color {
 	
 	/**
 	 * Shift the hue by an amount between 0-1
-	 */
-	public shiftHue(amount: number): Color {
-		return Color.fromHSL({
-			h: Color.modulo(this.hsl.h + amount, 1),
-			s: this.hsl.s,
-			l: this.hsl.l
-		}, this.alpha)
+	 * Rotates in HSL by default, OKLCH and LCh keep the perceived lightness
+	 */
+	public shiftHue(amount: number, space: HueSpace = 'hsl'): Color {
+		switch (space) {
+			case 'oklch':
+				return Color.fromOKLCH({
+					l: this.oklch.l,
+					c: this.oklch.c,
+					h: Color.modulo(this.oklch.h + amount, 1)
+				}, this.alpha)
+			
+			case 'lch':
+				return Color.fromLCh({
+					l: this.lch.l,
+					c: this.lch.c,
+					h: Color.modulo(this.lch.h + amount, 1)
+				}, this.alpha)
+			
+			default:
+				return Color.fromHSL({
+					h: Color.modulo(this.hsl.h + amount, 1),
+					s: this.hsl.s,
+					l: this.hsl.l
+				}, this.alpha)
+		}
 	}
 	
 	/**
-	 * Get a clone of this color with an alpha value between 0 and 1
+	 * Make the color warmer like a white balance slider
+	 * Adapts the color from daylight to a light source that is a number of Kelvin warmer.
 	 */
-	public withAlpha(alpha: number = 1): Color {
-		let clone = this.clone()
-		clone.alpha = alpha
-		
-		return clone
+	public warmer(kelvin: number = 500): Color {
+		return this.adaptToTemperature(Color.DAYLIGHT_KELVIN, Color.DAYLIGHT_KELVIN - kelvin)
 	}
 	
 	/**
-	 * Get a clone of this color with a specific hue between 0 and 1
+	 * Make the color cooler like a white balance slider
+	 * Adapts the color from daylight to a light source that is a number of Kelvin cooler, up to 15000K.
 	 */
-	public withHue(hue: number = 0): Color {
-		let clone = this.clone()
-		clone.hsl.h = hue
-		clone.rgbContainer = null
-		clone.hexContainer = null
+	public cooler(kelvin: number = 500): Color {
+		return this.adaptToTemperature(Color.DAYLIGHT_KELVIN, Color.DAYLIGHT_KELVIN + kelvin)
+	}
+	
+	private adaptToTemperature(from: number, to: number): Color {
+		const xyz = Color.adaptXyzToWhite(
+			this.xyz,
+			Color.chromaticityToXyz(kelvinToChromaticity(from)),
+			Color.chromaticityToXyz(kelvinToChromaticity(to))
+		)
 		
-		return clone
+		return Color.fromXYZ(xyz, this.alpha)
 	}
 	
+	// Harmonies
+	
 	/**
-	 * Get a clone of this color with a specific saturation between 0 and 1
+	 * Get this color and its complement, opposite on the color wheel
 	 */
-	public withSaturation(saturation: number = 1): Color {
-		let clone = this.clone()
-		clone.hsl.s = saturation
-		clone.rgbContainer = null
-		clone.hexContainer = null
+	public complementary(space: HueSpace = 'hsl'): Color[] {
+		return this.harmony([0, 1 / 2], space)
+	}
+	
+	/**
+	 * Get this color and the two colors next to its complement (150° and 210°)
+	 */
+	public splitComplementary(space: HueSpace = 'hsl'): Color[] {
+		return this.harmony([0, 5 / 12, 7 / 12], space)
+	}
+	
+	/**
+	 * Get this color and two more evenly spaced around the color wheel (120° apart)
+	 */
+	public triadic(space: HueSpace = 'hsl'): Color[] {
+		return this.harmony([0, 1 / 3, 2 / 3], space)
+	}
+	
+	/**
+	 * Get this color and three more forming a rectangle on the color wheel (60°, 180° and 240°)
+	 */
+	public tetradic(space: HueSpace = 'hsl'): Color[] {
+		return this.harmony([0, 1 / 6, 1 / 2, 2 / 3], space)
+	}
+	
+	/**
+	 * Get this color and three more forming a square on the color wheel (90° apart)
+	 */
+	public square(space: HueSpace = 'hsl'): Color[] {
+		return this.harmony([0, 1 / 4, 1 / 2, 3 / 4], space)
+	}
+	
+	/**
+	 * Get neighbouring colors on the color wheel, ordered by hue with this color in the middle
+	 *
+	 * @param {number}      count   Number of colors, including this one
+	 * @param {number}      angle   Hue distance between two colors, 0-1 like shiftHue, defaults to 30°
+	 * @param {HueSpace}    space
+	 */
+	public analogous(count: number = 3, angle: number = 1 / 12, space: HueSpace = 'hsl'): Color[] {
+		const start = -Math.floor((count - 1) / 2),
+			offsets: number[] = []
 		
-		return clone
+		for (let i = 0; i < count; i++) {
+			offsets.push((start + i) * angle)
+		}
+		
+		return this.harmony(offsets, space)
+	}
+	
+	/**
+	 * Get colors of the same hue with evenly spaced lightness, ordered from dark to light
+	 * This color replaces the step closest to its own lightness
+	 *
+	 * @param {number}      count   Number of colors, including this one
+	 * @param {HueSpace}    space   Space to vary the lightness in, LCh and OKLCH give perceptually even steps
+	 */
+	public monochromatic(count: number = 5, space: HueSpace = 'hsl'): Color[] {
+		const lightnessOf = (color: Color) => space == 'hsl' ? color.hsl.l : space == 'oklch' ? color.oklch.l : color.lch.l / 100,
+			current = lightnessOf(this),
+			closest = Math.min(count - 1, Math.max(0, Math.round(current * (count + 1)) - 1)),
+			colors: Color[] = []
+		
+		for (let i = 0; i < count; i++) {
+			const lightness = (i + 1) / (count + 1)
+			
+			if (i == closest) {
+				colors.push(this)
+			} else if (space == 'oklch') {
+				colors.push(Color.fromOKLCH({ l: lightness, c: this.oklch.c, h: this.oklch.h }, this.alpha))
+			} else if (space == 'lch') {
+				colors.push(Color.fromLCh({ l: lightness * 100, c: this.lch.c, h: this.lch.h }, this.alpha))
+			} else {
+				colors.push(Color.fromHSL({ h: this.hsl.h, s: this.hsl.s, l: lightness }, this.alpha))
+			}
+		}
+		
+		// This color is not exactly on its step, keep the order by lightness
+		return colors.sort((a, b) => lightnessOf(a) - lightnessOf(b))
+	}
+	
+	/**
+	 * Get this color with its hue shifted by each of the offsets, an offset of 0 being this color itself
+	 */
+	private harmony(offsets: number[], space: HueSpace): Color[] {
+		return offsets.map(offset => offset == 0 ? this : this.shiftHue(offset, space))
+	}
+	
+	/**
+	 * Get a clone of this color with an alpha value between 0 and 1
+	 */
+	public withAlpha(alpha: number = 1): Color {
+		const color = new Color({ [this.source]: this.containers[this.source] }, alpha)
+		
+		// The other representations don't depend on alpha, so they can be shared
+		Object.assign(color.containers, this.containers)
+		
+		return color
+	}
+	
+	/**
+	 * Get a clone of this color with a specific hue between 0 and 1
+	 */
+	public withHue(hue: number = 0): Color {
+		return Color.fromHSL({ ...this.hsl, h: hue }, this.alpha)
+	}
+	
+	/**
+	 * Get a clone of this color with a specific saturation between 0 and 1
+	 */
+	public withSaturation(saturation: number = 1): Color {
+		return Color.fromHSL({ ...this.hsl, s: saturation }, this.alpha)
 	}
 	
 	/**
 	 * Get a clone of this color with a specific lightness between 0 and 1
 	 */
 	public withLightness(lightness: number = 1): Color {
-		let clone = this.clone()
-		clone.hsl.l = lightness
-		
-		return clone
+		return Color.fromHSL({ ...this.hsl, l: lightness }, this.alpha)
 	}
 	
 	/**
@@ -411,40 +1366,220 @@ export class Color {
 	}
 	
 	/**
-	 * Get the WCAG contrast ratio to another color
+	 * Get the WCAG contrast ratio to another color, 1 to 21
 	 */
 	public contrastTo(color: Color): number {
 		return Color.contrast(this, color)
 	}
 	
 	/**
-	 * Clone this color
+	 * Get the color closest to this one in lightness that has at least the passed WCAG contrast ratio to a background
+	 * Returns this color if it already has enough contrast. If no lightness reaches the ratio,
+	 * the lightness with the highest contrast is used.
+	 *
+	 * @param {Color}                   background
+	 * @param {number}                  minRatio    WCAG contrast ratio to reach, 1 to 21, e.g. 4.5 for AA
+	 * @param {EnsureContrastOptions}   options
+	 */
+	public ensureContrast(background: Color, minRatio: number = 4.5, options: EnsureContrastOptions = {}): Color {
+		if (this.contrastTo(background) >= minRatio) {
+			return this
+		}
+		
+		const { space = 'oklch' } = options
+		
+		const withLightness = (lightness: number): Color => space == 'hsl'
+			? Color.fromHSL({ ...this.hsl, l: lightness }, this.alpha)
+			: Color.fromOKLCH({ ...this.oklch, l: lightness }, this.alpha)
+		
+		const current = space == 'hsl' ? this.hsl.l : this.oklch.l
+		
+		// Search for the smallest lightness change in both directions, contrast grows monotonically away from the background
+		const search = (target: number): number|null => {
+			if (withLightness(target).contrastTo(background) < minRatio) {
+				return null
+			}
+			
+			let near = current,
+				far = target
+			
+			for (let i = 0; i < 24; i++) {
+				const middle = (near + far) / 2
+				
+				if (withLightness(middle).contrastTo(background) >= minRatio) {
+					far = middle
+				} else {
+					near = middle
+				}
+			}
+			
+			return far
+		}
+		
+		const darker = search(0),
+			lighter = search(1)
+		
+		if (darker === null && lighter === null) {
+			const black = withLightness(0),
+				white = withLightness(1)
+			
+			return black.contrastTo(background) >= white.contrastTo(background) ? black : white
+		} else if (darker === null) {
+			return withLightness(lighter)
+		} else if (lighter === null) {
+			return withLightness(darker)
+		}
+		
+		return withLightness(current - darker <= lighter - current ? darker : lighter)
+	}
+	
+	/**
+	 * Check if this color as text on a background meets a WCAG 2.x contrast level
+	 */
+	public meetsWCAG(background: Color, level: WCAGLevel = 'AA', textSize: TextSize = 'normal'): boolean {
+		return Color.meetsWCAG(this, background, level, textSize)
+	}
+	
+	/**
+	 * Get the APCA lightness contrast (Lc) of this color as text on a background, roughly -108 to 106
+	 * Positive for dark text on a light background, negative for light text on a dark background
+	 */
+	public apcaContrastTo(background: Color): number {
+		return Color.apcaContrast(this, background)
+	}
+	
+	/**
+	 * Get the minimum font size in px for this color as text on a background according to APCA
+	 * Returns null if the contrast is too low for text of that weight
+	 */
+	public apcaMinFontSize(background: Color, weight: FontWeight = 400): number|null {
+		return apcaMinFontSizes(this.apcaContrastTo(background))[weight]
+	}
+	
+	/**
+	 * Simulate how this color looks to people with a color vision deficiency
+	 * Uses the Machado et al. (2009) model in linear RGB, which matches Viénot's dichromat model at full severity.
+	 *
+	 * @param {ColorVisionDeficiency}   type
+	 * @param {number}                  severity    0 (normal vision) to 1 (dichromacy), anomalous trichromacy in between
+	 *
+	 * @returns {Color}
+	 */
+	public simulate(type: ColorVisionDeficiency, severity: number = 1): Color {
+		const [r, g, b] = multiplyMatrix(colorVisionMatrix(type, severity), [
+			srgbToLinear(this.rgb.r / 255),
+			srgbToLinear(this.rgb.g / 255),
+			srgbToLinear(this.rgb.b / 255)
+		])
+		
+		return Color.fromRGB({
+			r: Color.clampChannel(linearToSrgb(r) * 255),
+			g: Color.clampChannel(linearToSrgb(g) * 255),
+			b: Color.clampChannel(linearToSrgb(b) * 255)
+		}, this.alpha)
+	}
+	
+	/**
+	 * Get the highest WCAG 2.x contrast level this color as text on a background meets, null if none
+	 */
+	public wcagLevel(background: Color, textSize: TextSize = 'normal'): WCAGLevel|null {
+		if (this.meetsWCAG(background, 'AAA', textSize)) {
+			return 'AAA'
+		} else if (this.meetsWCAG(background, 'AA', textSize)) {
+			return 'AA'
+		}
+		
+		return null
+	}
+	
+	/**
+	 * Get the opaque color this color produces on a background
+	 * Semi-transparent backgrounds are put on white first.
+	 *
+	 * @param {Color} background    Defaults to white
+	 *
+	 * @returns {Color}
+	 */
+	public flatten(background: Color = Color.WHITE): Color {
+		if (background.alpha < 1) {
+			background = background.flatten()
+		}
+		
+		return Color.composite(this, background, 'over')
+	}
+	
+	/**
+	 * Clone this color, including its source representation and alpha
+	 * As colors are immutable, this is rarely needed.
 	 */
 	public clone(): Color {
-		return Color.fromHSL(this.hsl, this.alpha)
+		return this.withAlpha(this.alpha)
 	}
 	
 	/**
 	 * Return the perceived brightness
 	 * The perceived brightness is the brightness value between 0 and 255
-	 * as perceived by a human in RGB colorspace with alpha = 1.
+	 * as perceived by a human in RGB colorspace. Semi-transparent colors are flattened onto white first.
 	 */
 	public get perceivedBrightness(): number {
-		return 0.2126 * this.rgb.r + 0.7152 * this.rgb.g + 0.0722 * this.rgb.b
+		const { r, g, b } = this.alpha < 1 ? this.flatten().rgb : this.rgb
+		
+		return 0.2126 * r + 0.7152 * g + 0.0722 * b
+	}
+	
+	/**
+	 * Get the perceived brightness of this color on a background
+	 */
+	private brightnessOn(background: Color): number {
+		return this.alpha < 1 ? this.flatten(background).perceivedBrightness : this.perceivedBrightness
+	}
+	
+	/**
+	 * Return the relative luminance as defined by WCAG 2.x
+	 * The relative luminance is between 0 (black) and 1 (white)
+	 * and calculated from linearized sRGB, ignoring alpha.
+	 */
+	public get relativeLuminance(): number {
+		return 0.2126 * srgbToLinear(this.rgb.r / 255) +
+		       0.7152 * srgbToLinear(this.rgb.g / 255) +
+		       0.0722 * srgbToLinear(this.rgb.b / 255)
+	}
+	
+	/**
+	 * Return the correlated color temperature and the distance to the Planckian locus (Duv)
+	 * The temperature is found with Ohno's method (2013) on a locus from Planck's law and the CIE 1931 observer,
+	 * it is within 0.001K of the exact minimum distance on 1000K to 15000K. Duv is positive above the locus
+	 * (greenish) and negative below (pinkish). Both are NaN for black.
+	 */
+	public get cct(): ColorTemperature {
+		const { x, y, z } = this.xyz,
+			sum = x + y + z
+		
+		if (sum == 0) {
+			return { kelvin: NaN, duv: NaN }
+		}
+		
+		return chromaticityToTemperature(x / sum, y / sum)
 	}
 	
 	/**
 	 * Is this color darker than a defined limit according to human perception?
+	 * Semi-transparent colors are checked on the background.
+	 *
+	 * @param {Color} background    Defaults to white
 	 */
-	public isDark(): boolean {
-		return this.perceivedBrightness <= 120
+	public isDark(background: Color = Color.WHITE): boolean {
+		return this.brightnessOn(background) <= 120
 	}
 	
 	/**
 	 * Is this color lighter than a defined limit according to human perception?
+	 * Semi-transparent colors are checked on the background.
+	 *
+	 * @param {Color} background    Defaults to white
 	 */
-	public isLight(): boolean {
-		return !this.isDark()
+	public isLight(background: Color = Color.WHITE): boolean {
+		return !this.isDark(background)
 	}
 	
 	/**
@@ -509,25 +1644,36 @@ export class Color {
 	 * Is this color similar to another color?
 	 *
 	 * @param {Color}   color       Color to compare to
-	 * @param {number}  accuracy    How close the colors have to be, 0-1
+	 * @param {number|SimilarityOptions}  accuracy    How close the colors have to be, 0-1, or a Delta E threshold
 	 *
 	 * @returns {boolean}
 	 */
-	public isSimilarTo(color: Color, accuracy: number = 0.99): boolean {
+	public isSimilarTo(color: Color, accuracy: number|SimilarityOptions = 0.99): boolean {
 		return Color.areSimilar(this, color, accuracy)
 	}
 	
+	/**
+	 * Get the Delta E color difference to another color, this color being the reference
+	 *
+	 * @param {Color}           color
+	 * @param {DeltaEMethod}    method      Formula to use, defaults to CIEDE2000
+	 * @param {CMCWeights}      weights     l:c weights for CMC, defaults to 2:1
+	 */
+	public deltaETo(color: Color, method: DeltaEMethod = 'CIEDE2000', weights?: CMCWeights): number {
+		return Color.deltaE(this, color, method, weights)
+	}
+	
 	// Getters
 	
 	/**
 	 * Get as hex string without leading #
 	 */
 	public get hex(): string {
-		if (!this.hexContainer) {
-			this.calculateHex()
+		if (!this.containers.hex) {
+			this.containers.hex = this.calculateHex()
 		}
 		
-		return this.hexContainer!
+		return this.containers.hex
 	}
 	
 	/**
@@ -537,22 +1683,65 @@ export class Color {
 		return '#' + this.hex
 	}
 	
+	/**
+	 * Get the CSS named color matching this color exactly, e.g. "rebeccapurple"
+	 * The unrounded channels are compared, so rgb(254.6, 0, 0) is not "red".
+	 * Returns "transparent" for fully transparent black and null if there is no matching name
+	 */
+	public get name(): string|null {
+		const { r, g, b } = this.rgb
+		
+		if ([r, g, b].some(channel => Math.abs(channel - Math.round(channel)) > NAME_TOLERANCE)) {
+			return null
+		}
+		
+		let hex = this.hex.toLowerCase()
+		
+		if (this.alpha === 0 && hex === '000000') {
+			return 'transparent'
+		}
+		
+		if (this.alpha !== 1) {
+			return null
+		}
+		
+		if (!Color.namesByHex) {
+			Color.namesByHex = {}
+			
+			// Aliases like "cyan" and "aqua" share a hex, the first one wins
+			for (const name in NAMED_COLORS) {
+				if (!Color.namesByHex.hasOwnProperty(NAMED_COLORS[name])) {
+					Color.namesByHex[NAMED_COLORS[name]] = name
+				}
+			}
+		}
+		
+		return Color.namesByHex[hex] || null
+	}
+	
+	/**
+	 * Get as a CSS-suitable 8-digit hex string including alpha, e.g. #1177aa80
+	 */
+	public get cssHexAlpha(): string {
+		return '#' + this.hex + Math.round(Color.clamp(this.alpha, 0, 1) * 255).toString(16).padStart(2, '0')
+	}
+	
 	/**
 	 * Get as RGB object
 	 */
 	public get rgb(): RGB {
-		if (!this.rgbContainer) {
-			this.calculateRGB()
+		if (!this.containers.rgb) {
+			this.containers.rgb = Object.freeze(this.calculateRGB())
 		}
 		
-		return this.rgbContainer!
+		return this.containers.rgb
 	}
 	
 	/**
 	 * Get as a CSS-suitable rgba string
 	 */
 	public get cssRGBA(): string {
-		return 'rgba(' + this.rgb.r + ', ' + this.rgb.g + ', ' + this.rgb.b + ', ' + this.alpha + ')'
+		return 'rgba(' + this.rgbString + ', ' + this.alpha + ')'
 	}
 	
 	/**
@@ -573,18 +1762,18 @@ export class Color {
 	 */
 	public get rgbString(): string {
 		const rgb = this.rgb
-		return `${rgb.r}, ${rgb.g}, ${rgb.b}`
+		return `${Math.round(rgb.r)}, ${Math.round(rgb.g)}, ${Math.round(rgb.b)}`
 	}
 	
 	/**
 	 * Get as HSL object
 	 */
 	public get hsl(): HSL {
-		if (!this.hslContainer) {
-			this.calculateHSL()
+		if (!this.containers.hsl) {
+			this.containers.hsl = Object.freeze(this.calculateHSL())
 		}
 		
-		return this.hslContainer!
+		return this.containers.hsl
 	}
 	
 	/**
@@ -610,151 +1799,904 @@ export class Color {
 		]
 	}
 	
+	/**
+	 * Get as HSV (HSB) object
+	 */
+	public get hsv(): HSV {
+		if (!this.containers.hsv) {
+			this.containers.hsv = Object.freeze(this.calculateHSV())
+		}
+		
+		return this.containers.hsv
+	}
+	
+	/**
+	 * Get as HWB object
+	 */
+	public get hwb(): HWB {
+		if (!this.containers.hwb) {
+			this.containers.hwb = Object.freeze(this.calculateHWB())
+		}
+		
+		return this.containers.hwb
+	}
+	
+	/**
+	 * Get as a CSS-suitable hwb string
+	 */
+	public get cssHWB(): string {
+		return 'hwb(' +
+		       (Math.round(this.hwb.h * 360 * 10000) / 10000) + ' ' +
+		       (Math.round(this.hwb.w * 100 * 10000) / 10000) + '% ' +
+		       (Math.round(this.hwb.b * 100 * 10000) / 10000) + '%' +
+		       Color.cssAlphaSuffix(this.alpha) +
+		       ')'
+	}
+	
+	/**
+	 * Get as CMYK object using naive black generation
+	 * Use {@link Color.toCMYK} for other black generation methods and ink limits
+	 */
+	public get cmyk(): CMYK {
+		if (!this.containers.cmyk) {
+			this.containers.cmyk = Object.freeze(this.calculateCMYK())
+		}
+		
+		return this.containers.cmyk
+	}
+	
+	/**
+	 * Get as CMYK object with custom black generation and ink limit
+	 */
+	public toCMYK(options?: CMYKOptions): CMYK {
+		return options ? Color.rgbToCmyk(this.rgb, options) : this.cmyk
+	}
+	
+	/**
+	 * Get as a CSS-suitable device-cmyk string using naive black generation
+	 */
+	public get cssCMYK(): string {
+		return 'device-cmyk(' +
+		       (Math.round(this.cmyk.c * 100 * 10000) / 10000) + '% ' +
+		       (Math.round(this.cmyk.m * 100 * 10000) / 10000) + '% ' +
+		       (Math.round(this.cmyk.y * 100 * 10000) / 10000) + '% ' +
+		       (Math.round(this.cmyk.k * 100 * 10000) / 10000) + '%' +
+		       Color.cssAlphaSuffix(this.alpha) +
+		       ')'
+	}
+	
 	/**
 	 * Get as YUV object
 	 */
 	public get yuv(): YUV {
-		if (!this.yuvContainer) {
-			this.calculateYUV()
+		if (!this.containers.yuv) {
+			this.containers.yuv = Object.freeze(this.calculateYUV())
 		}
 		
-		return this.yuvContainer!
+		return this.containers.yuv
 	}
 	
-	// Calculators
-	
-	protected calculateHex() {
-		if (this.hexContainer) {
-			return
+	/**
+	 * Get as OKLab object
+	 */
+	public get oklab(): OKLab {
+		if (!this.containers.oklab) {
+			this.containers.oklab = Object.freeze(this.calculateOKLab())
 		}
 		
-		if (this.rgbContainer) {
-			this.hexContainer = Color.rgbToHex(this.rgbContainer)
-		} else if (this.hslContainer) {
-			this.rgbContainer = Color.hslToRgb(this.hslContainer)
-			this.calculateHex()
-		} else {
-			throw new Error('Could not calculate hex value')
+		return this.containers.oklab
+	}
+	
+	/**
+	 * Get as a CSS-suitable oklab string
+	 */
+	public get cssOKLab(): string {
+		return 'oklab(' +
+		       (Math.round(this.oklab.l * 100 * 10000) / 10000) + '% ' +
+		       (Math.round(this.oklab.a * 10000) / 10000) + ' ' +
+		       (Math.round(this.oklab.b * 10000) / 10000) +
+		       Color.cssAlphaSuffix(this.alpha) +
+		       ')'
+	}
+	
+	/**
+	 * Get as OKLCH object
+	 */
+	public get oklch(): OKLCH {
+		if (!this.containers.oklch) {
+			this.containers.oklch = Object.freeze(this.calculateOKLCH())
 		}
+		
+		return this.containers.oklch
 	}
 	
-	protected calculateRGB() {
-		if (this.rgbContainer) {
-			return
+	/**
+	 * Get as a CSS-suitable oklch string
+	 */
+	public get cssOKLCH(): string {
+		return 'oklch(' +
+		       (Math.round(this.oklch.l * 100 * 10000) / 10000) + '% ' +
+		       (Math.round(this.oklch.c * 10000) / 10000) + ' ' +
+		       (Math.round(this.oklch.h * 360 * 10000) / 10000) +
+		       Color.cssAlphaSuffix(this.alpha) +
+		       ')'
+	}
+	
+	/**
+	 * Get as CIE XYZ object relative to D65
+	 */
+	public get xyz(): XYZ {
+		if (!this.containers.xyz) {
+			this.containers.xyz = Object.freeze(this.calculateXYZ())
 		}
 		
-		if (this.hexContainer) {
-			this.rgbContainer = Color.hexToRgb(this.hexContainer)
-		} else if (this.hslContainer) {
-			this.rgbContainer = Color.hslToRgb(this.hslContainer)
-		} else {
-			throw new Error('Could not calculate RGB values')
+		return this.containers.xyz
+	}
+	
+	/**
+	 * Get as CIE XYZ object relative to D50
+	 */
+	public get xyzD50(): XYZ {
+		if (!this.containers.xyzD50) {
+			this.containers.xyzD50 = Object.freeze(this.calculateXYZD50())
 		}
+		
+		return this.containers.xyzD50
 	}
 	
-	protected calculateHSL() {
-		if (this.hslContainer) {
-			return
+	/**
+	 * Get as CIELAB object relative to D50
+	 */
+	public get lab(): Lab {
+		if (!this.containers.lab) {
+			this.containers.lab = Object.freeze(this.calculateLab())
 		}
 		
-		if (this.hexContainer) {
-			this.hslContainer = Color.hexToHsl(this.hexContainer)
-		} else if (this.rgbContainer) {
-			this.hslContainer = Color.rgbToHsl(this.rgbContainer)
-		} else {
-			throw new Error('Could not calculate HSL values')
+		return this.containers.lab
+	}
+	
+	/**
+	 * Get as CIELCh object relative to D50
+	 */
+	public get lch(): LCh {
+		if (!this.containers.lch) {
+			this.containers.lch = Object.freeze(this.calculateLCh())
 		}
+		
+		return this.containers.lch
+	}
+	
+	/**
+	 * Get as CIE XYZ object relative to any white point
+	 */
+	public toXYZ(whitePoint: WhitePoint = 'D65'): XYZ {
+		return whitePoint == 'D50' ? this.xyzD50 : this.xyz
+	}
+	
+	/**
+	 * Get as CSS color() string in a predefined color space, e.g. "color(display-p3 0.9 0.1 0.2 / 0.5)"
+	 */
+	public toColorString(space: PredefinedColorSpace = 'srgb'): string {
+		const channels = xyzToPredefined(space, this.toXYZ(predefinedWhitePoint(space)))
+		                 .map(channel => Math.round(channel * 10000) / 10000)
+		
+		return `color(${space} ${channels.join(' ')}${Color.cssAlphaSuffix(this.alpha)})`
 	}
 	
-	protected calculateYUV() {
-		if (this.yuvContainer) {
-			return
+	/**
+	 * Check whether this color can be displayed in a color space without clipping
+	 */
+	public inGamut(space: GamutSpace = 'srgb'): boolean {
+		return Color.isXyzInGamut(this.xyz, space)
+	}
+	
+	/**
+	 * Bring this color into the gamut of a color space
+	 * Returns this color if it's already in gamut.
+	 *
+	 * @param {GamutSpace}      space
+	 * @param {ToGamutOptions}  options
+	 *
+	 * @returns {Color} Color created from the channels of the color space
+	 */
+	public toGamut(space: GamutSpace = 'srgb', options: ToGamutOptions = {}): Color {
+		const { method = 'css4' } = options
+		
+		if (this.inGamut(space)) {
+			return this
 		}
 		
-		if (!this.rgbContainer) {
-			// Easiest conversion is from RGB, so calculate that first
-			this.calculateRGB()
+		if (method == 'clip') {
+			return Color.clipToGamut(this.xyz, space, this.alpha)
 		}
 		
-		this.yuvContainer = Color.rgbToYuv(this.rgbContainer)
+		const origin = this.oklch
+		
+		if (origin.l >= 1) {
+			return Color.clipToGamut(Color.oklabToXyz({ l: 1, a: 0, b: 0 }), space, this.alpha)
+		} else if (origin.l <= 0) {
+			return Color.clipToGamut({ x: 0, y: 0, z: 0 }, space, this.alpha)
+		}
+		
+		const xyzWithChroma = (c: number) => Color.oklabToXyz(Color.oklchToOklab({ l: origin.l, c, h: origin.h }))
+		
+		let min = 0,
+			max = origin.c
+		
+		if (method == 'chroma-reduction') {
+			while (max - min > Color.GAMUT_MAPPING_EPSILON) {
+				const chroma = (min + max) / 2
+				
+				if (Color.isXyzInGamut(xyzWithChroma(chroma), space)) {
+					min = chroma
+				} else {
+					max = chroma
+				}
+			}
+			
+			// Clip the remaining imprecision
+			return Color.clipToGamut(xyzWithChroma(min), space, this.alpha)
+		}
+		
+		// CSS Color 4: https://www.w3.org/TR/css-color-4/#binsearch
+		let clipped = Color.clipToGamut(this.xyz, space, this.alpha),
+			minInGamut = true
+		
+		if (deltaEOK(clipped.oklab, this.oklab) < Color.GAMUT_MAPPING_JND) {
+			return clipped
+		}
+		
+		while (max - min > Color.GAMUT_MAPPING_EPSILON) {
+			const chroma = (min + max) / 2,
+				current = xyzWithChroma(chroma)
+			
+			if (minInGamut && Color.isXyzInGamut(current, space)) {
+				min = chroma
+				continue
+			}
+			
+			clipped = Color.clipToGamut(current, space, this.alpha)
+			
+			const difference = deltaEOK(clipped.oklab, Color.xyzToOklab(current))
+			
+			if (difference < Color.GAMUT_MAPPING_JND) {
+				if (Color.GAMUT_MAPPING_JND - difference < Color.GAMUT_MAPPING_EPSILON) {
+					return clipped
+				}
+				
+				minInGamut = false
+				min = chroma
+			} else {
+				max = chroma
+			}
+		}
+		
+		return clipped
+	}
+	
+	/**
+	 * Get as CIELAB object relative to any white point
+	 */
+	public toLab(whitePoint: WhitePoint = 'D50'): Lab {
+		return whitePoint == 'D50' ? this.lab : Color.xyzToLab(this.xyz, whitePoint)
+	}
+	
+	/**
+	 * Get as CIELCh object relative to any white point
+	 */
+	public toLCh(whitePoint: WhitePoint = 'D50'): LCh {
+		return whitePoint == 'D50' ? this.lch : Color.labToLch(this.toLab(whitePoint))
+	}
+	
+	// Calculators
+	
+	protected calculateHex(): string {
+		// Every other format goes through RGB first
+		return Color.rgbToHex(this.rgb)
+	}
+	
+	protected calculateRGB(): RGB {
+		switch (this.source) {
+			case 'hex':
+				return Color.hexToRgb(this.hex)
+			case 'hsl':
+			case 'hsv':
+			case 'hwb':
+				return Color.hslToRgb(this.hsl)
+			case 'cmyk':
+				return Color.cmykToRgb(this.cmyk)
+			case 'yuv':
+				return Color.yuvToRgb(this.yuv)
+			case 'oklab':
+			case 'oklch':
+				return Color.oklabToRgb(this.oklab)
+			case 'xyz':
+			case 'xyzD50':
+			case 'lab':
+			case 'lch':
+				return Color.xyzToRgb(this.xyz)
+		}
+		
+		throw new Error('Could not calculate RGB values')
+	}
+	
+	protected calculateHSL(): HSL {
+		switch (this.source) {
+			case 'hex':
+				return Color.hexToHsl(this.hex)
+			case 'hsv':
+			case 'hwb':
+				return Color.hsvToHsl(this.hsv)
+			default:
+				return Color.rgbToHsl(this.rgb)
+		}
+	}
+	
+	protected calculateHSV(): HSV {
+		return this.source == 'hwb' ? Color.hwbToHsv(this.hwb) : Color.hslToHsv(this.hsl)
+	}
+	
+	protected calculateHWB(): HWB {
+		return Color.hsvToHwb(this.hsv)
+	}
+	
+	protected calculateCMYK(): CMYK {
+		return Color.rgbToCmyk(this.rgb)
+	}
+	
+	protected calculateYUV(): YUV {
+		// Easiest conversion is from RGB
+		return Color.rgbToYuv(this.rgb)
+	}
+	
+	protected calculateOKLab(): OKLab {
+		switch (this.source) {
+			case 'oklch':
+				return Color.oklchToOklab(this.oklch)
+			case 'xyz':
+			case 'xyzD50':
+			case 'lab':
+			case 'lch':
+				// Stay in XYZ so colors outside of sRGB aren't clipped
+				return Color.xyzToOklab(this.xyz)
+			default:
+				return Color.rgbToOklab(this.rgb)
+		}
+	}
+	
+	protected calculateOKLCH(): OKLCH {
+		// OKLCH is only a polar representation of OKLab
+		return Color.oklabToOklch(this.oklab)
+	}
+	
+	protected calculateXYZ(): XYZ {
+		switch (this.source) {
+			case 'xyzD50':
+			case 'lab':
+			case 'lch':
+				// Stay in XYZ instead of clipping through RGB
+				return Color.adaptXyz(this.xyzD50, 'D50', 'D65')
+			case 'oklab':
+			case 'oklch':
+				return Color.oklabToXyz(this.oklab)
+			default:
+				return Color.rgbToXyz(this.rgb)
+		}
+	}
+	
+	protected calculateXYZD50(): XYZ {
+		switch (this.source) {
+			case 'lab':
+			case 'lch':
+				return Color.labToXyz(this.lab, 'D50')
+			default:
+				return Color.adaptXyz(this.xyz, 'D65', 'D50')
+		}
+	}
+	
+	protected calculateLab(): Lab {
+		return this.source == 'lch' ? Color.lchToLab(this.lch) : Color.xyzToLab(this.xyzD50, 'D50')
+	}
+	
+	protected calculateLCh(): LCh {
+		return Color.labToLch(this.lab)
 	}
 	
 	// Static
 	
 	/**
-	 * Mix two colors like SCSS' mix() function, ignores alpha completely
+	 * Mix two colors like SCSS' mix() function, alpha is mixed with the same weight
+	 * Like in SCSS, the more opaque color contributes more to the channels.
 	 *
-	 * @param {Color}   color1  Hex Color 1
-	 * @param {Color}   color2  Hex Color 2
+	 * @param {Color}   color1  Color 1
+	 * @param {Color}   color2  Color 2
 	 * @param {number}  weight  Percentage from 0 to 100
 	 */
 	static mix(color1: Color, color2: Color, weight: number = 50): Color {
-		let finalHex = ''
+		const t = weight / 100.0,
+			rgb1 = color1.rgb,
+			rgb2 = color2.rgb
+		
+		// Sass' weighting of the channels by the difference in alpha
+		const w = 2 * t - 1,
+			a = color1.alpha - color2.alpha,
+			w1 = ((w * a == -1 ? w : (w + a) / (1 + w * a)) + 1) / 2
+		
+		// Combine the unrounded channels, so repeated mixing doesn't drift
+		return Color.fromRGB({
+			r: rgb2.r + (rgb1.r - rgb2.r) * w1,
+			g: rgb2.g + (rgb1.g - rgb2.g) * w1,
+			b: rgb2.b + (rgb1.b - rgb2.b) * w1,
+		}, color2.alpha + (color1.alpha - color2.alpha) * t)
+	}
+	
+	/**
+	 * Create a scale that maps numbers to colors, e.g. for charts and heatmaps
+	 *
+	 * @param {Color[]}         colors  Colors from the start to the end of the domain
+	 * @param {ScaleOptions}    options
+	 */
+	static createScale(colors: Color[], options: ScaleOptions = {}): ColorScale {
+		return new ColorScale(colors, options)
+	}
+	
+	/**
+	 * Extract the main colors of an image with their share of the pixels
+	 *
+	 * @param {Uint8ClampedArray|Uint8Array}    pixels  RGBA pixels, like ImageData.data or a decoded PNG
+	 * @param {number}                          width
+	 * @param {number}                          height
+	 * @param {PaletteOptions}                  options
+	 */
+	static extractPalette(pixels: Uint8ClampedArray | Uint8Array, width: number, height: number, options: PaletteOptions = {}): Palette {
+		return extractPalette(pixels, width, height, options)
+	}
+	
+	/**
+	 * Map every pixel of an image to the nearest color of a palette, optionally with dithering
+	 *
+	 * @param {Uint8ClampedArray|Uint8Array}    pixels  RGBA pixels, like ImageData.data or a decoded PNG
+	 * @param {number}                          width
+	 * @param {number}                          height
+	 * @param {Color[]}                         palette Colors to use, alpha is ignored
+	 * @param {QuantizeOptions}                 options
+	 */
+	static quantize(pixels: Uint8ClampedArray | Uint8Array, width: number, height: number, palette: Color[], options: QuantizeOptions = {}): QuantizedImage {
+		return quantizePixels(pixels, width, height, palette, options)
+	}
+	
+	/**
+	 * Interpolate between two colors following the CSS Color 4 rules
+	 * Powerless hues (of achromatic colors) take the hue of the other color.
+	 *
+	 * @param {Color}                   color1
+	 * @param {Color}                   color2
+	 * @param {number}                  t       Progress from color1 (0) to color2 (1)
+	 * @param {InterpolationOptions}    options
+	 */
+	static interpolate(color1: Color, color2: Color, t: number, options: InterpolationOptions = {}): Color {
+		const { space = 'oklab', hue = 'shorter', premultiplied = true } = options
+		
+		const coords1 = Color.toInterpolationCoords(color1, space),
+			coords2 = Color.toInterpolationCoords(color2, space),
+			hueIndex = Color.interpolationHueIndex(space),
+			alpha = color1.alpha + (color2.alpha - color1.alpha) * t
+		
+		if (hueIndex !== null) {
+			let hue1 = coords1[hueIndex],
+				hue2 = coords2[hueIndex]
+			
+			if (Number.isNaN(hue1)) {
+				hue1 = Number.isNaN(hue2) ? 0 : hue2
+			}
+			
+			if (Number.isNaN(hue2)) {
+				hue2 = hue1
+			}
+			
+			const difference = hue2 - hue1
+			
+			if (hue == 'shorter') {
+				if (difference > 0.5) {
+					hue1 += 1
+				} else if (difference < -0.5) {
+					hue2 += 1
+				}
+			} else if (hue == 'longer') {
+				if (difference > 0 && difference < 0.5) {
+					hue1 += 1
+				} else if (difference > -0.5 && difference <= 0) {
+					hue2 += 1
+				}
+			} else if (hue == 'increasing') {
+				if (difference < 0) {
+					hue2 += 1
+				}
+			} else if (difference > 0) {
+				hue1 += 1
+			}
+			
+			coords1[hueIndex] = hue1
+			coords2[hueIndex] = hue2
+		}
+		
+		// Premultiply everything but the hue, undo it with the interpolated alpha
+		const premultiply = premultiplied && alpha > 0
+		
+		const coords = coords1.map((value1, i) => {
+			const value2 = coords2[i]
+			
+			if (!premultiply || i === hueIndex) {
+				return value1 + (value2 - value1) * t
+			}
+			
+			return (value1 * color1.alpha + (value2 * color2.alpha - value1 * color1.alpha) * t) / alpha
+		})
+		
+		if (hueIndex !== null) {
+			coords[hueIndex] = Color.modulo(coords[hueIndex], 1)
+		}
+		
+		return Color.fromInterpolationCoords(coords, space, alpha)
+	}
+	
+	/**
+	 * Get evenly spaced colors along a gradient through all passed colors
+	 *
+	 * @param {Color[]}                 colors  Color stops, evenly distributed
+	 * @param {number}                  count   Number of colors to return, including both ends
+	 * @param {InterpolationOptions}    options
+	 */
+	static steps(colors: Color[], count: number, options: InterpolationOptions = {}): Color[] {
+		if (colors.length == 0 || count < 1) {
+			return []
+		}
+		
+		if (colors.length == 1 || count == 1) {
+			return Array.from({ length: count }, () => colors[0])
+		}
+		
+		const segments = colors.length - 1
+		
+		return Array.from({ length: count }, (_, i) => {
+			const position = i / (count - 1) * segments,
+				segment = Math.min(Math.floor(position), segments - 1)
+			
+			return Color.interpolate(colors[segment], colors[segment + 1], position - segment, options)
+		})
+	}
+	
+	/**
+	 * Get the coordinates of a color in an interpolation space, powerless hues are NaN
+	 */
+	private static toInterpolationCoords(color: Color, space: InterpolationSpace): number[] {
+		switch (space) {
+			case 'srgb': {
+				const { r, g, b } = color.rgb
+				
+				return [r / 255, g / 255, b / 255]
+			}
+			case 'srgb-linear': {
+				const { r, g, b } = color.rgb
+				
+				return [r, g, b].map(channel => srgbToLinear(channel / 255))
+			}
+			case 'hsl': {
+				const { h, s, l } = color.hsl
+				
+				return [s == 0 || l == 0 || l == 1 ? NaN : h, s, l]
+			}
+			case 'lab': {
+				const { l, a, b } = color.lab
+				
+				return [l, a, b]
+			}
+			case 'lch': {
+				const { l, c, h } = color.lch
+				
+				return [l, c, c < Color.LCH_ACHROMATIC_CHROMA ? NaN : h]
+			}
+			case 'oklab': {
+				const { l, a, b } = color.oklab
+				
+				return [l, a, b]
+			}
+			case 'oklch': {
+				const { l, c, h } = color.oklch
+				
+				return [l, c, c < Color.OKLCH_ACHROMATIC_CHROMA ? NaN : h]
+			}
+		}
+	}
+	
+	private static fromInterpolationCoords(coords: number[], space: InterpolationSpace, alpha: number): Color {
+		const [x, y, z] = coords
+		
+		switch (space) {
+			case 'srgb':
+				return Color.fromRGB({
+					r: Color.clampChannel(x * 255),
+					g: Color.clampChannel(y * 255),
+					b: Color.clampChannel(z * 255)
+				}, alpha)
+			case 'srgb-linear':
+				return Color.fromRGB({
+					r: Color.clampChannel(linearToSrgb(x) * 255),
+					g: Color.clampChannel(linearToSrgb(y) * 255),
+					b: Color.clampChannel(linearToSrgb(z) * 255)
+				}, alpha)
+			case 'hsl':
+				return Color.fromHSL({ h: x, s: y, l: z }, alpha)
+			case 'lab':
+				return Color.fromLab({ l: x, a: y, b: z }, alpha)
+			case 'lch':
+				return Color.fromLCh({ l: x, c: y, h: z }, alpha)
+			case 'oklab':
+				return Color.fromOKLab({ l: x, a: y, b: z }, alpha)
+			case 'oklch':
+				return Color.fromOKLCH({ l: x, c: y, h: z }, alpha)
+		}
+	}
+	
+	private static interpolationHueIndex(space: InterpolationSpace): number | null {
+		switch (space) {
+			case 'hsl':
+				return 0
+			case 'lch':
+			case 'oklch':
+				return 2
+			default:
+				return null
+		}
+	}
+	
+	/**
+	 * Shade blend two colors with a given percentage
+	 * Thanks to http://stackoverflow.com/a/13542669/1486930 for this piece of code.
+	 * Alpha is blended towards c1 or kept when shading to black or white.
+	 *
+	 * @param {Number}  p   Percentage to blend, negative means darken, positive means lighten
+	 * @param {Color}   c0  Color to blend
+	 * @param {Color}   c1  Color to blend in, optional
+	 */
+	static shadeBlend(p: number, c0: Color, c1?: Color): Color {
+		const n = Math.abs(p),
+			from = c0.rgb,
+			to = (c1 || (p < 0 ? Color.BLACK : Color.WHITE)).rgb
+		
+		return Color.fromRGB({
+			r: from.r + (to.r - from.r) * n,
+			g: from.g + (to.g - from.g) * n,
+			b: from.b + (to.b - from.b) * n,
+		}, c1 ? c0.alpha + (c1.alpha - c0.alpha) * n : c0.alpha)
+	}
+	
+	/**
+	 * Composite two colors using a Porter-Duff operator in sRGB, as browsers do
+	 *
+	 * @param {Color}               source      Color on top
+	 * @param {Color}               backdrop    Color below
+	 * @param {CompositeOperator}   operator
+	 *
+	 * @returns {Color} Transparent black if nothing is left
+	 */
+	static composite(source: Color, backdrop: Color, operator: CompositeOperator = 'over'): Color {
+		const sourceAlpha = source.alpha,
+			backdropAlpha = backdrop.alpha
+		
+		// Fraction of the source and the backdrop that remain
+		const [fa, fb] = {
+			over: [1, 1 - sourceAlpha],
+			in: [backdropAlpha, 0],
+			out: [1 - backdropAlpha, 0],
+			atop: [backdropAlpha, 1 - sourceAlpha],
+			xor: [1 - backdropAlpha, 1 - sourceAlpha]
+		}[operator]
+		
+		const alpha = sourceAlpha * fa + backdropAlpha * fb
+		
+		if (alpha <= 0) {
+			return Color.fromRGB({ r: 0, g: 0, b: 0 }, 0)
+		}
+		
+		const channel = (s: number, b: number) => Color.clampChannel((s * sourceAlpha * fa + b * backdropAlpha * fb) / alpha)
+		
+		return Color.fromRGB({
+			r: channel(source.rgb.r, backdrop.rgb.r),
+			g: channel(source.rgb.g, backdrop.rgb.g),
+			b: channel(source.rgb.b, backdrop.rgb.b)
+		}, Math.min(1, alpha))
+	}
+	
+	/**
+	 * Blend a source color onto a backdrop like CSS mix-blend-mode, then composite it over the backdrop
+	 * Where the backdrop is transparent, the source shows through unblended.
+	 *
+	 * @param {Color}       backdrop    Color below
+	 * @param {Color}       source      Color on top
+	 * @param {BlendMode}   mode
+	 *
+	 * @returns {Color}
+	 */
+	static blend(backdrop: Color, source: Color, mode: BlendMode = 'normal'): Color {
+		const sourceAlpha = source.alpha,
+			backdropAlpha = backdrop.alpha,
+			alpha = sourceAlpha + backdropAlpha * (1 - sourceAlpha)
+		
+		if (alpha <= 0) {
+			return Color.fromRGB({ r: 0, g: 0, b: 0 }, 0)
+		}
+		
+		const cb: [number, number, number] = [backdrop.rgb.r / 255, backdrop.rgb.g / 255, backdrop.rgb.b / 255],
+			cs: [number, number, number] = [source.rgb.r / 255, source.rgb.g / 255, source.rgb.b / 255],
+			blended = blendChannels(cb, cs, mode)
+		
+		const [r, g, b] = cs.map((channel, i) => {
+			const mixed = (1 - backdropAlpha) * channel + backdropAlpha * blended[i]
+			
+			return Color.clampChannel((sourceAlpha * mixed + backdropAlpha * (1 - sourceAlpha) * cb[i]) / alpha * 255)
+		})
+		
+		return Color.fromRGB({ r, g, b }, Math.min(1, alpha))
+	}
+	
+	/**
+	 * Get the WCAG 2.x contrast ratio between two colors, 1 to 21
+	 * Semi-transparent colors are flattened first: c0 onto c1 and c1 onto white.
+	 */
+	static contrast(c0: Color, c1: Color): number {
+		const background = c1.alpha < 1 ? c1.flatten() : c1,
+			foreground = c0.alpha < 1 ? c0.flatten(background) : c0
+		
+		const lum1 = foreground.relativeLuminance,
+			lum2 = background.relativeLuminance,
+			brightest = Math.max(lum1, lum2),
+			darkest = Math.min(lum1, lum2)
+		
+		return (brightest + 0.05) / (darkest + 0.05)
+	}
+	
+	/**
+	 * Get the APCA (WCAG 3 draft) lightness contrast (Lc) of a text color on a background color
+	 * APCA is polarity-aware, so swapping text and background changes the result:
+	 * Positive for dark text on a light background, negative for light text on a dark background
+	 * Semi-transparent text is flattened onto the background, a semi-transparent background onto white.
+	 */
+	static apcaContrast(text: Color, background: Color): number {
+		if (background.alpha < 1) {
+			background = background.flatten()
+		}
+		
+		if (text.alpha < 1) {
+			text = text.flatten(background)
+		}
+		
+		return apcaContrast(apcaLuminance(text.rgb), apcaLuminance(background.rgb))
+	}
+	
+	/**
+	 * Generate a tonal ramp like Tailwind's 50 to 950 from a base color in OKLCH
+	 * Hue is kept, lightness follows the curve with the base color pinned to its step,
+	 * chroma fades towards the ends and is reduced further where it would leave sRGB.
+	 *
+	 * @param {Color}               base
+	 * @param {TonalScaleOptions}   options
+	 *
+	 * @returns {Record<number, Color>} Colors by step name, the base step is the base color itself
+	 */
+	static tonalScale(base: Color, options: TonalScaleOptions = {}): Record<number, Color> {
+		const {
+			steps = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950],
+			lightest = 0.97,
+			darkest = 0.25,
+			curve = 1,
+			chromaEasing = 0.6
+		} = options
+		
+		const ease = typeof curve == 'function' ? curve : (t: number) => Math.pow(t, curve),
+			first = steps[0],
+			last = steps[steps.length - 1],
+			position = (step: number) => steps.length == 1 ? 0 : (step - first) / (last - first),
+			lightnessAt = (t: number) => lightest + (darkest - lightest) * ease(t)
+		
+		const { l: baseLightness, c: baseChroma, h: hue } = base.oklch
 		
-		for (let i = 0; i <= 5; i += 2) {
-			let value1 = parseInt(color1.hex.substring(i, i + 2), 16),
-				value2 = parseInt(color2.hex.substring(i, i + 2), 16)
+		let baseStep = options.baseStep
+		
+		if (baseStep !== undefined && !steps.includes(baseStep)) {
+			throw new Error('The base step is not one of the steps: ' + baseStep)
+		}
+		
+		if (baseStep === undefined) {
+			baseStep = steps.reduce((closest, step) =>
+				Math.abs(lightnessAt(position(step)) - baseLightness) < Math.abs(lightnessAt(position(closest)) - baseLightness)
+					? step
+					: closest
+			)
+		}
+		
+		const basePosition = position(baseStep),
+			baseCurve = ease(basePosition),
+			scale: Record<number, Color> = {}
+		
+		for (const step of steps) {
+			if (step == baseStep) {
+				scale[step] = base
+				continue
+			}
+			
+			const t = position(step),
+				curveValue = ease(t)
 			
-			// Combine a pair of color components (first r, then g, then b) mathematically
-			let combinedValue = Math.floor(value2 + (value1 - value2) * (weight / 100.0)),
-				hexCombinedValue = combinedValue.toString(16)
+			// Bend the curve on both sides of the base so it passes through the base lightness
+			let lightness: number,
+				distance: number
 			
-			// If the result is now a single digit, prepend a zero
-			while (hexCombinedValue.length < 2) {
-				hexCombinedValue = '0' + hexCombinedValue
+			if (t < basePosition) {
+				const progress = baseCurve == 0 ? 0 : curveValue / baseCurve
+				lightness = lightest + (baseLightness - lightest) * progress
+				distance = 1 - t / basePosition
+			} else {
+				const progress = baseCurve == 1 ? 1 : (curveValue - baseCurve) / (1 - baseCurve)
+				lightness = baseLightness + (darkest - baseLightness) * progress
+				distance = (t - basePosition) / (1 - basePosition)
 			}
 			
-			finalHex += hexCombinedValue
+			let chroma = baseChroma * (1 - Color.clamp(chromaEasing, 0, 1) * distance * distance)
+			
+			// Reduce chroma until the color fits into sRGB instead of clipping it
+			if (!Color.isOklchInSrgb({ l: lightness, c: chroma, h: hue })) {
+				let low = 0,
+					high = chroma
+				
+				for (let i = 0; i < 20; i++) {
+					const middle = (low + high) / 2
+					
+					if (Color.isOklchInSrgb({ l: lightness, c: middle, h: hue })) {
+						low = middle
+					} else {
+						high = middle
+					}
+				}
+				
+				chroma = low
+			}
+			
+			scale[step] = Color.fromOKLCH({ l: lightness, c: chroma, h: hue }, base.alpha)
 		}
 		
-		const alpha = color2.alpha + (color1.alpha - color2.alpha) * (weight / 100.0)
-		
-		return Color.fromHex(finalHex)
-		            .withAlpha(alpha)
+		return scale
 	}
 	
 	/**
-	 * Shade blend two colors with a given percentage
-	 * Thanks to http://stackoverflow.com/a/13542669/1486930 for this piece of code.
-	 * Ignores alpha.
-	 *
-	 * @param {Number}  p   Percentage to blend, negative means darken, positive means lighten
-	 * @param {Color}   c0  Color to blend
-	 * @param {Color}   c1  Color to blend in, optional
+	 * Get the candidate with the highest WCAG contrast to a background, null if there are no candidates
 	 */
-	static shadeBlend(p: number, c0: Color, c1: Color): Color {
-		let n = p < 0 ? p * -1 : p,
-			u = Math.round,
-			w = parseInt
-		
-		let f = w(c0.hex.slice(1), 16),
-			t = w((c1 ? c1.hex : p < 0 ? "#000000" : "#FFFFFF").slice(1), 16),
-			R1 = f >> 16,
-			G1 = f >> 8 & 0x00FF,
-			B1 = f & 0x0000FF
-		
-		return Color.fromHex(
-			(0x1000000 + (u(((t >> 16) - R1) * n) + R1) * 0x10000
-			           + (u(((t >> 8 & 0x00FF) - G1) * n) + G1) * 0x100
-			           + (u(((t & 0x0000FF) - B1) * n) + B1)
-			).toString(16).slice(1)
-		)
+	static mostReadable(background: Color, candidates: Color[]): Color|null {
+		let best: Color|null = null,
+			bestContrast = 0
+		
+		for (const candidate of candidates) {
+			const contrast = candidate.contrastTo(background)
+			
+			if (contrast > bestContrast) {
+				best = candidate
+				bestContrast = contrast
+			}
+		}
+		
+		return best
 	}
 	
 	/**
-	 * Get the WCAG contrast ratio between two colors
+	 * Check if a text color on a background color meets a WCAG 2.x contrast level
 	 */
-	static contrast(c0: Color, c1: Color): number {
-		const lum1 = c0.perceivedBrightness,
-			lum2 = c1.perceivedBrightness,
-			brightest = Math.max(lum1, lum2),
-			darkest = Math.min(lum1, lum2)
-		
-		return (brightest + 0.05) / (darkest + 0.05)
+	static meetsWCAG(text: Color, background: Color, level: WCAGLevel = 'AA', textSize: TextSize = 'normal'): boolean {
+		return Color.contrast(text, background) >= Color.WCAG_MIN_CONTRAST[level][textSize]
 	}
 	
 	/**
 	 * Normalize a hex color into a 6-digit hex value without leading hash symbol
+	 * Hex colors with alpha (4 or 8 digits) are normalized into an 8-digit hex value
 	 */
 	static normalizeHex(source: string): string|null {
 		if (!source || !source.length || source.match(/[G-Zg-z]+/)) {
@@ -791,7 +2733,15 @@ export class Color {
 				b = normalized.charAt(2)
 			
 			normalized = r + r + g + g + b + b
-		} else if (normalized.length != 6) {
+		} else if (normalized.length == 4) {
+			// If exactly 4 characters, it's the short code with alpha. 17a8 -> 1177aa88
+			let r = normalized.charAt(0),
+				g = normalized.charAt(1),
+				b = normalized.charAt(2),
+				a = normalized.charAt(3)
+			
+			normalized = r + r + g + g + b + b + a + a
+		} else if (normalized.length != 6 && normalized.length != 8) {
 			// If it's not normalized by now it was invalid
 			return null
 		}
@@ -800,15 +2750,21 @@ export class Color {
 	}
 	
 	/**
-	 * Check whether two colors are similar to each other, based on their YUV representation
+	 * Check whether two colors are similar to each other
+	 * Based on their YUV representation if accuracy is a number,
+	 * or on Delta E if {@link SimilarityOptions} are passed
 	 *
 	 * @param {Color}   color1
 	 * @param {Color}   color2
-	 * @param {number}  accuracy    How close the colors have to be, 0-1
+	 * @param {number|SimilarityOptions}  accuracy    How close the colors have to be, 0-1, or a Delta E threshold
 	 *
 	 * @returns {boolean}
 	 */
-	static areSimilar(color1: Color, color2: Color, accuracy: number = 0.99): boolean {
+	static areSimilar(color1: Color, color2: Color, accuracy: number|SimilarityOptions = 0.99): boolean {
+		if (typeof accuracy == 'object') {
+			return Color.deltaE(color1, color2, accuracy.method) <= accuracy.maxDeltaE
+		}
+		
 		const yDiff = Math.abs(color1.yuv.y - color2.yuv.y),
 			uDiff = Math.abs(color1.yuv.u - color2.yuv.u),
 			vDiff = Math.abs(color1.yuv.v - color2.yuv.v)
@@ -818,49 +2774,75 @@ export class Color {
 		return yDiff <= invertedAccuracy && uDiff <= invertedAccuracy && vDiff <= invertedAccuracy
 	}
 	
+	/**
+	 * Get the Delta E color difference between two colors, ignoring alpha
+	 * CIE94 and CMC are not symmetric, color1 is the reference for them
+	 *
+	 * @param {Color}           color1
+	 * @param {Color}           color2
+	 * @param {DeltaEMethod}    method      Formula to use, defaults to CIEDE2000
+	 * @param {CMCWeights}      weights     l:c weights for CMC, defaults to 2:1
+	 */
+	static deltaE(color1: Color, color2: Color, method: DeltaEMethod = 'CIEDE2000', weights?: CMCWeights): number {
+		switch (method) {
+			case 'CIE76': return deltaE76(color1.lab, color2.lab)
+			case 'CIE94': return deltaE94(color1.lab, color2.lab)
+			case 'CMC': return deltaECMC(color1.lab, color2.lab, weights)
+			case 'OK': return Color.deltaEOK(color1, color2)
+			default: return deltaE2000(color1.lab, color2.lab)
+		}
+	}
+	
+	/**
+	 * Get the euclidean distance between two colors in OKLab, ignoring alpha
+	 */
+	static deltaEOK(color1: Color, color2: Color): number {
+		return deltaEOK(color1.oklab, color2.oklab)
+	}
+	
 	/**
 	 * Convert this color into a string
 	 * Uses whatever format is available in this priority:
 	 * - cssHSLA
 	 * - cssRGBA
 	 * - cssHex
+	 * - cssOKLCH
+	 * - cssOKLab
 	 */
 	public toString = (): string => {
-		if (this.hslContainer) {
-			return this.cssHSLA
-		} else if (this.rgbContainer) {
-			return this.cssRGBA
-		} else if (this.hexContainer) {
-			return this.cssHex
+		switch (this.source) {
+			case 'rgb': return this.cssRGBA
+			case 'hex': return this.cssHex
+			case 'oklch': return this.cssOKLCH
+			case 'oklab': return this.cssOKLab
+			default: return this.cssHSLA
 		}
-		
-		// Otherwise, force calculate HSLA and wonder how the fuck we got here…
-		return this.cssHSLA
 	}
 	
 	/**
 	 * Convert this color into an object for use as JSON
-	 * Uses whatever format is available in this priority:
-	 * - HSLA
-	 * - RGBA
-	 * - Hex
+	 * RGB, HSL and hex colors are stored as they are, e.g. { r, g, b, alpha },
+	 * all other colors with the name of their space, e.g. { space: 'oklch', l, c, h, alpha },
+	 * so out of gamut values survive the round trip.
 	 *
 	 * Use {@link Color.fromJSON} to restore from JSON
 	 */
 	public toJSON(): { [key: string]: string | number } {
-		if (this.rgbContainer) {
+		if (this.source == 'hex') {
 			return {
-				...this.rgb,
+				hex: this.hex,
 				alpha: this.alpha,
 			}
-		} else if (this.hslContainer) {
+		} else if (this.source == 'rgb' || this.source == 'hsl') {
 			return {
-				...this.hsl,
+				...this.containers[this.source],
 				alpha: this.alpha,
 			}
 		} else {
 			return {
-				hex: this.hex,
+				space: this.source,
+				...this.containers[this.source],
+				alpha: this.alpha,
 			}
 		}
 	}
@@ -881,12 +2863,20 @@ export class Color {
 			parsed = json
 		}
 		
-		if (parsed.hex) {
-			return Color.fromHex(parsed.hex)
-		} else if (parsed.h) {
-			return Color.fromHSL(parsed, parsed.alpha)
-		} else if (parsed.r) {
-			return Color.fromRGB(parsed, parsed.alpha)
+		if (parsed.space) {
+			let { space, alpha, ...components } = parsed
+			
+			if (space == 'hex' || !COMPONENT_KEYS.includes(space)) {
+				return null
+			}
+			
+			return new Color({ [space]: components }, alpha)
+		} else if (parsed.hex) {
+			return Color.fromHex(parsed.hex, parsed.alpha)
+		} else if (typeof parsed.h == 'number') {
+			return Color.fromHSL({ h: parsed.h, s: parsed.s, l: parsed.l }, parsed.alpha)
+		} else if (typeof parsed.r == 'number') {
+			return Color.fromRGB({ r: parsed.r, g: parsed.g, b: parsed.b }, parsed.alpha)
 		} else {
 			return null
 		}
@@ -929,9 +2919,9 @@ export class Color {
 	 * Convert rgb to a hex string without leading #
 	 */
 	static rgbToHex(rgb: RGB): string {
-		return rgb.r.toString(16).padStart(2, '0') +
-		       rgb.g.toString(16).padStart(2, '0') +
-		       rgb.b.toString(16).padStart(2, '0')
+		const byte = (channel: number) => Math.round(Color.clampChannel(channel)).toString(16).padStart(2, '0')
+		
+		return byte(rgb.r) + byte(rgb.g) + byte(rgb.b)
 	}
 	
 	/**
@@ -979,9 +2969,133 @@ export class Color {
 		}
 		
 		return {
-			r: Math.round(r * 255),
-			g: Math.round(g * 255),
-			b: Math.round(b * 255),
+			r: Color.clampChannel(r * 255),
+			g: Color.clampChannel(g * 255),
+			b: Color.clampChannel(b * 255),
+		}
+	}
+	
+	/**
+	 * Convert HSL to HSV
+	 */
+	static hslToHsv(hsl: HSL): HSV {
+		const v = hsl.l + hsl.s * Math.min(hsl.l, 1 - hsl.l)
+		
+		return {
+			h: hsl.h,
+			s: v == 0 ? 0 : 2 * (1 - hsl.l / v),
+			v
+		}
+	}
+	
+	/**
+	 * Convert HSV to HSL
+	 */
+	static hsvToHsl(hsv: HSV): HSL {
+		const l = hsv.v * (1 - hsv.s / 2)
+		
+		return {
+			h: hsv.h,
+			s: l == 0 || l == 1 ? 0 : (hsv.v - l) / Math.min(l, 1 - l),
+			l
+		}
+	}
+	
+	/**
+	 * Convert HSV to HWB
+	 */
+	static hsvToHwb(hsv: HSV): HWB {
+		return {
+			h: hsv.h,
+			w: (1 - hsv.s) * hsv.v,
+			b: 1 - hsv.v
+		}
+	}
+	
+	/**
+	 * Convert HWB to HSV
+	 * Whiteness and blackness adding up to more than 1 are normalized into a gray
+	 */
+	static hwbToHsv(hwb: HWB): HSV {
+		let { w, b } = hwb
+		
+		if (w + b > 1) {
+			const sum = w + b
+			w /= sum
+			b /= sum
+		}
+		
+		const v = 1 - b
+		
+		return {
+			h: hwb.h,
+			s: v == 0 ? 0 : 1 - w / v,
+			v
+		}
+	}
+	
+	/**
+	 * Convert RGB to CMYK
+	 * Black generation and total ink coverage can be configured, see {@link CMYKOptions}
+	 */
+	static rgbToCmyk(rgb: RGB, options: CMYKOptions = {}): CMYK {
+		const {
+			blackGeneration = 'naive',
+			grayReplacement = 0.8,
+			ucrThreshold = 0.5,
+			inkLimit = 4
+		} = options
+		
+		const cyan = 1 - rgb.r / 255,
+			magenta = 1 - rgb.g / 255,
+			yellow = 1 - rgb.b / 255,
+			gray = Math.min(cyan, magenta, yellow)
+		
+		let k: number
+		
+		switch (blackGeneration) {
+			case 'gcr':
+				k = gray * Color.clamp(grayReplacement, 0, 1)
+				break
+			
+			case 'ucr':
+				k = gray <= ucrThreshold ? 0 : gray * (gray - ucrThreshold) / (1 - ucrThreshold)
+				break
+			
+			default:
+				k = gray
+		}
+		
+		// Remove black from the chromatic inks, (1 - c) * (1 - k) has to stay 1 - cyan
+		const removeBlack = (ink: number) => k >= 1 ? 0 : (ink - k) / (1 - k)
+		
+		let c = removeBlack(cyan),
+			m = removeBlack(magenta),
+			y = removeBlack(yellow)
+		
+		k = Math.min(k, inkLimit)
+		
+		const chromaticInk = c + m + y
+		
+		if (chromaticInk + k > inkLimit && chromaticInk > 0) {
+			const factor = Math.max(inkLimit - k, 0) / chromaticInk
+			
+			c *= factor
+			m *= factor
+			y *= factor
+		}
+		
+		return { c, m, y, k }
+	}
+	
+	/**
+	 * Convert CMYK to RGB
+	 */
+	static cmykToRgb(cmyk: CMYK): RGB {
+		return {
+			r: Color.clampChannel(255 * (1 - cmyk.c) * (1 - cmyk.k)),
+			g: Color.clampChannel(255 * (1 - cmyk.m) * (1 - cmyk.k)),
+			b: Color.clampChannel(255 * (1 - cmyk.y) * (1 - cmyk.k))
 		}
 	}
 	
@@ -1011,9 +3125,9 @@ export class Color {
 		v -= 128
 		
 		return {
-			r: Math.abs(Math.round((1.164 * y             + 1.596 * v) * 255)),
-			g: Math.abs(Math.round((1.164 * y - 0.392 * u - 0.813 * v) * 255)),
-			b: Math.abs(Math.round((1.164 * y + 2.017 * u) * 255))
+			r: Color.clampChannel((1.164 * y             + 1.596 * v) * 255),
+			g: Color.clampChannel((1.164 * y - 0.392 * u - 0.813 * v) * 255),
+			b: Color.clampChannel((1.164 * y + 2.017 * u) * 255)
 		}
 	}
 	
@@ -1034,6 +3148,307 @@ export class Color {
 		}
 	}
 	
+	/**
+	 * Convert RGB to OKLab
+	 * Thanks to https://bottosson.github.io/posts/oklab/
+	 */
+	static rgbToOklab(rgb: RGB): OKLab {
+		return Color.linearRgbToOklab(
+			srgbToLinear(rgb.r / 255),
+			srgbToLinear(rgb.g / 255),
+			srgbToLinear(rgb.b / 255)
+		)
+	}
+	
+	private static linearRgbToOklab(r: number, g: number, b: number): OKLab {
+		const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b),
+			m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b),
+			s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+		
+		return {
+			l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+			a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+			b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+		}
+	}
+	
+	/**
+	 * Convert OKLab to RGB, clipping to the sRGB gamut
+	 * Thanks to https://bottosson.github.io/posts/oklab/
+	 */
+	static oklabToRgb(oklab: OKLab): RGB {
+		const [r, g, b] = Color.oklabToLinearRgb(oklab)
+		
+		return {
+			r: Color.clampChannel(linearToSrgb(r) * 255),
+			g: Color.clampChannel(linearToSrgb(g) * 255),
+			b: Color.clampChannel(linearToSrgb(b) * 255)
+		}
+	}
+	
+	/**
+	 * Convert OKLab to unclipped linear sRGB channels between 0 and 1
+	 */
+	private static oklabToLinearRgb(oklab: OKLab): [number, number, number] {
+		const l = Math.pow(oklab.l + 0.3963377774 * oklab.a + 0.2158037573 * oklab.b, 3),
+			m = Math.pow(oklab.l - 0.1055613458 * oklab.a - 0.0638541728 * oklab.b, 3),
+			s = Math.pow(oklab.l - 0.0894841775 * oklab.a - 1.2914855480 * oklab.b, 3)
+		
+		return [
+			4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+			-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+			-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+		]
+	}
+	
+	/**
+	 * Convert OKLab to CIE XYZ relative to D65, without clipping
+	 */
+	static oklabToXyz(oklab: OKLab): XYZ {
+		const [x, y, z] = multiplyMatrix(LINEAR_SRGB_TO_XYZ, Color.oklabToLinearRgb(oklab))
+		
+		return { x, y, z }
+	}
+	
+	/**
+	 * Convert CIE XYZ relative to D65 to OKLab, without clipping
+	 */
+	static xyzToOklab(xyz: XYZ): OKLab {
+		const [r, g, b] = multiplyMatrix(XYZ_TO_LINEAR_SRGB, [xyz.x, xyz.y, xyz.z])
+		
+		return Color.linearRgbToOklab(r, g, b)
+	}
+	
+	private static isXyzInGamut(xyz: XYZ, space: GamutSpace): boolean {
+		return xyzToPredefined(space, xyz)
+		       .every(channel => channel >= -Color.GAMUT_EPSILON && channel <= 1 + Color.GAMUT_EPSILON)
+	}
+	
+	/**
+	 * Clamp the channels of a color in a color space, sRGB colors are created from RGB
+	 */
+	private static clipToGamut(xyz: XYZ, space: GamutSpace, alpha: number): Color {
+		const [r, g, b] = xyzToPredefined(space, xyz).map(channel => Color.clamp(channel, 0, 1))
+		
+		return space == 'srgb'
+			? Color.fromRGB({ r: Color.clampChannel(r * 255), g: Color.clampChannel(g * 255), b: Color.clampChannel(b * 255) }, alpha)
+			: Color.fromColorFunction(space, [r, g, b], alpha)
+	}
+	
+	/**
+	 * Check whether an OKLCH color can be displayed in sRGB without clipping
+	 */
+	private static isOklchInSrgb(oklch: OKLCH): boolean {
+		return Color.oklabToLinearRgb(Color.oklchToOklab(oklch))
+		            .every(channel => channel >= -0.000001 && channel <= 1.000001)
+	}
+	
+	/**
+	 * Convert OKLab to OKLCH
+	 */
+	static oklabToOklch(oklab: OKLab): OKLCH {
+		const c = Math.sqrt(oklab.a * oklab.a + oklab.b * oklab.b)
+		
+		// Hue is meaningless for achromatic colors
+		const h = c < Color.OKLCH_ACHROMATIC_CHROMA
+			? 0
+			: Color.modulo(Math.atan2(oklab.b, oklab.a) / (2 * Math.PI), 1)
+		
+		return { l: oklab.l, c, h }
+	}
+	
+	/**
+	 * Convert OKLCH to OKLab
+	 */
+	static oklchToOklab(oklch: OKLCH): OKLab {
+		const angle = oklch.h * 2 * Math.PI
+		
+		return {
+			l: oklch.l,
+			a: oklch.c * Math.cos(angle),
+			b: oklch.c * Math.sin(angle)
+		}
+	}
+	
+	/**
+	 * Convert RGB to CIE XYZ relative to D65
+	 */
+	static rgbToXyz(rgb: RGB): XYZ {
+		const [x, y, z] = multiplyMatrix(LINEAR_SRGB_TO_XYZ, [
+			srgbToLinear(rgb.r / 255),
+			srgbToLinear(rgb.g / 255),
+			srgbToLinear(rgb.b / 255)
+		])
+		
+		return { x, y, z }
+	}
+	
+	/**
+	 * Convert CIE XYZ relative to D65 to RGB, clipping to the sRGB gamut
+	 */
+	static xyzToRgb(xyz: XYZ): RGB {
+		const [r, g, b] = multiplyMatrix(XYZ_TO_LINEAR_SRGB, [xyz.x, xyz.y, xyz.z])
+		
+		return {
+			r: Color.clampChannel(linearToSrgb(r) * 255),
+			g: Color.clampChannel(linearToSrgb(g) * 255),
+			b: Color.clampChannel(linearToSrgb(b) * 255)
+		}
+	}
+	
+	/**
+	 * Chromatically adapt CIE XYZ from one white point to another using the Bradford method
+	 */
+	static adaptXyz(xyz: XYZ, from: WhitePoint, to: WhitePoint): XYZ {
+		if (from == to) {
+			return { x: xyz.x, y: xyz.y, z: xyz.z }
+		}
+		
+		const matrix = from == 'D65' ? Color.BRADFORD_D65_TO_D50 : Color.BRADFORD_D50_TO_D65,
+			[x, y, z] = multiplyMatrix(matrix, [xyz.x, xyz.y, xyz.z])
+		
+		return { x, y, z }
+	}
+	
+	/**
+	 * Chromatically adapt CIE XYZ between arbitrary white points using the Bradford method
+	 */
+	private static adaptXyzToWhite(xyz: XYZ, from: XYZ, to: XYZ): XYZ {
+		const fromCone = multiplyMatrix(Color.BRADFORD_CONE, [from.x, from.y, from.z]),
+			toCone = multiplyMatrix(Color.BRADFORD_CONE, [to.x, to.y, to.z]),
+			cone = multiplyMatrix(Color.BRADFORD_CONE, [xyz.x, xyz.y, xyz.z])
+		
+		// Von Kries scaling of the cone responses
+		const [x, y, z] = multiplyMatrix(Color.BRADFORD_CONE_INVERSE, cone.map((value, i) => value * toCone[i] / fromCone[i]))
+		
+		return { x, y, z }
+	}
+	
+	/**
+	 * Convert CIE XYZ to CIELAB, both relative to the same white point
+	 */
+	static xyzToLab(xyz: XYZ, whitePoint: WhitePoint = 'D50'): Lab {
+		const white = Color.WHITE_POINTS[whitePoint]
+		
+		const f = (t: number) => t > Color.LAB_EPSILON ? Math.cbrt(t) : (Color.LAB_KAPPA * t + 16) / 116
+		
+		const fx = f(xyz.x / white.x),
+			fy = f(xyz.y / white.y),
+			fz = f(xyz.z / white.z)
+		
+		return {
+			l: 116 * fy - 16,
+			a: 500 * (fx - fy),
+			b: 200 * (fy - fz)
+		}
+	}
+	
+	/**
+	 * Convert CIELAB to CIE XYZ, both relative to the same white point
+	 */
+	static labToXyz(lab: Lab, whitePoint: WhitePoint = 'D50'): XYZ {
+		const white = Color.WHITE_POINTS[whitePoint]
+		
+		const fy = (lab.l + 16) / 116,
+			fx = fy + lab.a / 500,
+			fz = fy - lab.b / 200
+		
+		const finv = (t: number) => t * t * t > Color.LAB_EPSILON ? t * t * t : (116 * t - 16) / Color.LAB_KAPPA
+		
+		return {
+			x: finv(fx) * white.x,
+			y: (lab.l > Color.LAB_KAPPA * Color.LAB_EPSILON ? fy * fy * fy : lab.l / Color.LAB_KAPPA) * white.y,
+			z: finv(fz) * white.z
+		}
+	}
+	
+	/**
+	 * Convert CIELAB to CIELCh
+	 */
+	static labToLch(lab: Lab): LCh {
+		const c = Math.sqrt(lab.a * lab.a + lab.b * lab.b)
+		
+		// Hue is meaningless for achromatic colors
+		const h = c < Color.LCH_ACHROMATIC_CHROMA
+			? 0
+			: Color.modulo(Math.atan2(lab.b, lab.a) / (2 * Math.PI), 1)
+		
+		return { l: lab.l, c, h }
+	}
+	
+	/**
+	 * Convert CIELCh to CIELAB
+	 */
+	static lchToLab(lch: LCh): Lab {
+		const angle = lch.h * 2 * Math.PI
+		
+		return {
+			l: lch.l,
+			a: lch.c * Math.cos(angle),
+			b: lch.c * Math.sin(angle)
+		}
+	}
+	
+	private static readonly LAB_EPSILON = 216 / 24389
+	private static readonly LAB_KAPPA = 24389 / 27
+	
+	private static readonly BRADFORD_D65_TO_D50 = [
+		[1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+		[0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+		[-0.009243058152591178, 0.015055144896577895, 0.7518742899580008]
+	]
+	
+	// Exact inverse of the matrix above, so adapting back and forth round trips
+	private static readonly BRADFORD_D50_TO_D65 = [
+		[0.9554733942048977, -0.02309837472603865, 0.06325919498911496],
+		[-0.02836971286639444, 1.0099953374555604, 0.02104147560735432],
+		[0.012314034948960153, -0.02050758481440557, 1.3303659126444372]
+	]
+	
+	// Cone response matrix of the Bradford method
+	private static readonly BRADFORD_CONE = [
+		[0.8951, 0.2664, -0.1614],
+		[-0.7502, 1.7135, 0.0367],
+		[0.0389, -0.0685, 1.0296]
+	]
+	
+	private static readonly BRADFORD_CONE_INVERSE = [
+		[0.9869929054667123, -0.14705425642099013, 0.15996265166373122],
+		[0.43230526972339456, 0.5183602715367776, 0.0492912282128556],
+		[-0.008528664575177328, 0.04004282165408487, 0.9684866957875501]
+	]
+	
+	// Correlated color temperature of D65
+	private static readonly DAYLIGHT_KELVIN = 6504
+	
+	/**
+	 * Get CIE XYZ with a luminance of 1 from a CIE 1931 xy chromaticity
+	 */
+	private static chromaticityToXyz([x, y]: [number, number]): XYZ {
+		return { x: x / y, y: 1, z: (1 - x - y) / y }
+	}
+	
+	/**
+	 * Clamp a value between min and max
+	 */
+	private static clamp(value: number, min: number, max: number): number {
+		return Math.max(min, Math.min(max, value))
+	}
+	
+	/**
+	 * Clamp an RGB channel to 0 to 255, without rounding
+	 */
+	private static clampChannel(value: number): number {
+		return Math.max(0, Math.min(255, value))
+	}
+	
+	/**
+	 * Get the alpha part of a modern CSS color function, empty if fully opaque
+	 */
+	private static cssAlphaSuffix(alpha: number): string {
+		return alpha < 1 ? ' / ' + alpha : ''
+	}
+	
 	/**
 	 * Detect the type of color of a string
 	 *
@@ -1048,22 +3463,33 @@ export class Color {
 		
 		let normalized = String(str)
 		
-		let firstThreeChars = normalized.length >= 3 ? normalized.substring(0, 3) : '',
-			firstFourChars = normalized.length >= 4 ? normalized.substring(0, 4) : ''
-		
 		if (Color.normalizeHex(normalized)) {
 			return ColorType.hex
-		} else if (firstFourChars === 'rgba') {
-			return ColorType.rgba
-		} else if (firstThreeChars === 'rgb') {
-			return ColorType.rgb
-		} else if (firstFourChars === 'hsla') {
-			return ColorType.hsla
-		} else if (firstThreeChars === 'hsl') {
-			return ColorType.hsl
-		} else {
-			return ColorType.str
 		}
+		
+		let functionName = normalized.trim().match(/^([a-z-]+)\(/i)
+		
+		switch (functionName ? functionName[1].toLowerCase() : null) {
+			case 'rgba': return ColorType.rgba
+			case 'rgb': return ColorType.rgb
+			case 'hsla': return ColorType.hsla
+			case 'hsl': return ColorType.hsl
+			case 'hwb': return ColorType.hwb
+			case 'device-cmyk': return ColorType.cmyk
+			case 'oklab': return ColorType.oklab
+			case 'oklch': return ColorType.oklch
+			case 'lab': return ColorType.lab
+			case 'lch': return ColorType.lch
+			case 'color': return ColorType.color
+		}
+		
+		let name = normalized.trim().toLowerCase()
+		
+		if (name === 'transparent' || NAMED_COLORS.hasOwnProperty(name)) {
+			return ColorType.named
+		}
+		
+		return ColorType.str
 	}
 	
 	private static modulo(n: number, m: number): number {
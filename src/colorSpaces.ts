@@ -0,0 +1,190 @@
+import type { WhitePoint, XYZ } from './color'
+
+/**
+ * A predefined color space of the CSS color() function
+ */
+export type PredefinedColorSpace = 'srgb' | 'srgb-linear' | 'display-p3' | 'a98-rgb' | 'prophoto-rgb' | 'rec2020' | 'xyz-d50' | 'xyz-d65'
+
+type Matrix = number[][]
+
+interface ColorSpaceDefinition {
+	whitePoint: WhitePoint
+	toLinear: (channel: number) => number
+	fromLinear: (channel: number) => number
+	toXyz: Matrix
+	fromXyz: Matrix
+}
+
+const identity = (channel: number) => channel
+
+// Transfer functions keep the sign, so out of gamut values survive a round trip
+const signed = (transfer: (abs: number) => number) => (channel: number) => Math.sign(channel) * transfer(Math.abs(channel))
+
+/**
+ * Remove the sRGB gamma from a channel between 0 and 1, values outside keep their sign
+ */
+export const srgbToLinear = signed(abs => abs <= 0.04045 ? abs / 12.92 : Math.pow((abs + 0.055) / 1.055, 2.4))
+
+/**
+ * Apply the sRGB gamma to a linear channel between 0 and 1, values outside keep their sign
+ */
+export const linearToSrgb = signed(abs => abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055)
+
+const REC2020_ALPHA = 1.09929682680944
+const REC2020_BETA = 0.018053968510807
+
+/**
+ * Linear sRGB to CIE XYZ relative to D65, the matrices are from CSS Color 4
+ */
+export const LINEAR_SRGB_TO_XYZ = [
+	[0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+	[0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+	[0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+]
+
+/**
+ * CIE XYZ relative to D65 to linear sRGB
+ */
+export const XYZ_TO_LINEAR_SRGB = [
+	[3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+	[-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+	[0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+]
+
+const SPACES: Record<PredefinedColorSpace, ColorSpaceDefinition> = {
+	'srgb': {
+		whitePoint: 'D65',
+		toLinear: srgbToLinear,
+		fromLinear: linearToSrgb,
+		toXyz: LINEAR_SRGB_TO_XYZ,
+		fromXyz: XYZ_TO_LINEAR_SRGB,
+	},
+	'srgb-linear': {
+		whitePoint: 'D65',
+		toLinear: identity,
+		fromLinear: identity,
+		toXyz: LINEAR_SRGB_TO_XYZ,
+		fromXyz: XYZ_TO_LINEAR_SRGB,
+	},
+	'display-p3': {
+		whitePoint: 'D65',
+		toLinear: srgbToLinear,
+		fromLinear: linearToSrgb,
+		toXyz: [
+			[0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+			[0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+			[0, 0.04511338185890264, 1.043944368900976],
+		],
+		fromXyz: [
+			[2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+			[-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+			[0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+		],
+	},
+	'a98-rgb': {
+		whitePoint: 'D65',
+		toLinear: signed(abs => Math.pow(abs, 563 / 256)),
+		fromLinear: signed(abs => Math.pow(abs, 256 / 563)),
+		toXyz: [
+			[0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+			[0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+			[0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+		],
+		fromXyz: [
+			[2.0415879038107465, -0.5650069742788596, -0.34473135077832956],
+			[-0.9692436362808795, 1.8759675015077202, 0.04155505740717557],
+			[0.013444280632031142, -0.11836239223101838, 1.0151749943912054],
+		],
+	},
+	'prophoto-rgb': {
+		whitePoint: 'D50',
+		toLinear: signed(abs => abs <= 16 / 512 ? abs / 16 : Math.pow(abs, 1.8)),
+		fromLinear: signed(abs => abs >= 1 / 512 ? Math.pow(abs, 1 / 1.8) : 16 * abs),
+		toXyz: [
+			[0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+			[0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+			[0, 0, 0.8251046025104602],
+		],
+		fromXyz: [
+			[1.3457868816471583, -0.25557208737979464, -0.05110186497554526],
+			[-0.5446307051249019, 1.5082477428451468, 0.02052744743642139],
+			[0, 0, 1.2119675456389452],
+		],
+	},
+	'rec2020': {
+		whitePoint: 'D65',
+		toLinear: signed(abs => abs < REC2020_BETA * 4.5
+			? abs / 4.5
+			: Math.pow((abs + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45)
+		),
+		fromLinear: signed(abs => abs >= REC2020_BETA
+			? REC2020_ALPHA * Math.pow(abs, 0.45) - (REC2020_ALPHA - 1)
+			: 4.5 * abs
+		),
+		toXyz: [
+			[0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+			[0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+			[0, 0.028072693049087428, 1.060985057710791],
+		],
+		fromXyz: [
+			[1.716651187971268, -0.355670783776392, -0.253366281373660],
+			[-0.666684351832489, 1.616481236634939, 0.0157685458139111],
+			[0.017639857445311, -0.042770613257809, 0.942103121235474],
+		],
+	},
+	'xyz-d50': {
+		whitePoint: 'D50',
+		toLinear: identity,
+		fromLinear: identity,
+		toXyz: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+		fromXyz: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+	},
+	'xyz-d65': {
+		whitePoint: 'D65',
+		toLinear: identity,
+		fromLinear: identity,
+		toXyz: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+		fromXyz: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+	},
+}
+
+/**
+ * Check whether a string is a predefined color space, "xyz" is not included as it's an alias for xyz-d65
+ */
+export function isPredefinedColorSpace(space: string): space is PredefinedColorSpace {
+	return SPACES.hasOwnProperty(space)
+}
+
+/**
+ * Get the white point the XYZ values of a color space are relative to
+ */
+export function predefinedWhitePoint(space: PredefinedColorSpace): WhitePoint {
+	return SPACES[space].whitePoint
+}
+
+/**
+ * Convert channels of a predefined color space (0 to 1 in gamut) to CIE XYZ relative to its white point
+ */
+export function predefinedToXyz(space: PredefinedColorSpace, channels: [number, number, number]): XYZ {
+	const definition = SPACES[space],
+		[x, y, z] = multiplyMatrix(definition.toXyz, channels.map(definition.toLinear))
+	
+	return { x, y, z }
+}
+
+/**
+ * Convert CIE XYZ relative to the white point of a predefined color space to its channels, without clipping
+ */
+export function xyzToPredefined(space: PredefinedColorSpace, xyz: XYZ): [number, number, number] {
+	const definition = SPACES[space],
+		[r, g, b] = multiplyMatrix(definition.fromXyz, [xyz.x, xyz.y, xyz.z]).map(definition.fromLinear)
+	
+	return [r, g, b]
+}
+
+/**
+ * Multiply a 3x3 matrix with a vector
+ */
+export function multiplyMatrix(matrix: Matrix, vector: number[]): number[] {
+	return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2])
+}
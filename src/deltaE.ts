@@ -0,0 +1,179 @@
+import type { Lab, OKLab } from './color'
+
+/**
+ * A formula for the difference between two colors
+ *  - CIE76: euclidean distance in Lab, fast but not perceptually uniform
+ *  - CIE94: weighted Lab distance using the graphic arts constants
+ *  - CIEDE2000: the current CIE recommendation, most accurate
+ *  - CMC: CMC l:c as used in the textile industry
+ *  - OK: euclidean distance in OKLab, 0 to roughly 1 instead of 0 to 100
+ */
+export type DeltaEMethod = 'CIE76' | 'CIE94' | 'CIEDE2000' | 'CMC' | 'OK'
+
+/**
+ * Weights for CMC l:c, defaults to 2:1 (acceptability), use 1:1 for perceptibility
+ */
+export interface CMCWeights {
+	/**
+	 * Lightness weight
+	 */
+	l?: number
+	/**
+	 * Chroma weight
+	 */
+	c?: number
+}
+
+/**
+ * Delta E 1976, euclidean distance in Lab
+ */
+export function deltaE76(lab1: Lab, lab2: Lab): number {
+	return Math.sqrt(
+		(lab1.l - lab2.l) ** 2 +
+		(lab1.a - lab2.a) ** 2 +
+		(lab1.b - lab2.b) ** 2
+	)
+}
+
+/**
+ * Delta E 1994 with graphic arts constants
+ * Not symmetric, lab1 is the reference color
+ */
+export function deltaE94(lab1: Lab, lab2: Lab): number {
+	const c1 = Math.sqrt(lab1.a ** 2 + lab1.b ** 2),
+		c2 = Math.sqrt(lab2.a ** 2 + lab2.b ** 2)
+	
+	const dL = lab1.l - lab2.l,
+		dC = c1 - c2,
+		dH2 = Math.max(0, (lab1.a - lab2.a) ** 2 + (lab1.b - lab2.b) ** 2 - dC ** 2)
+	
+	const sC = 1 + 0.045 * c1,
+		sH = 1 + 0.015 * c1
+	
+	return Math.sqrt(dL ** 2 + (dC / sC) ** 2 + dH2 / sH ** 2)
+}
+
+/**
+ * Delta E CIEDE2000
+ * Thanks to http://www2.ece.rochester.edu/~gsharma/ciede2000/ for the formula and test data
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+	const c1 = Math.sqrt(lab1.a ** 2 + lab1.b ** 2),
+		c2 = Math.sqrt(lab2.a ** 2 + lab2.b ** 2),
+		cMean7 = ((c1 + c2) / 2) ** 7
+	
+	// Compensate for the a axis being less uniform for neutral colors
+	const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7))),
+		a1 = (1 + g) * lab1.a,
+		a2 = (1 + g) * lab2.a
+	
+	const c1p = Math.sqrt(a1 ** 2 + lab1.b ** 2),
+		c2p = Math.sqrt(a2 ** 2 + lab2.b ** 2),
+		h1p = hueDegrees(a1, lab1.b),
+		h2p = hueDegrees(a2, lab2.b)
+	
+	let dhp = 0
+	
+	if (c1p * c2p != 0) {
+		dhp = h2p - h1p
+		
+		if (dhp > 180) {
+			dhp -= 360
+		} else if (dhp < -180) {
+			dhp += 360
+		}
+	}
+	
+	const dLp = lab2.l - lab1.l,
+		dCp = c2p - c1p,
+		dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(radians(dhp / 2))
+	
+	const lMean = (lab1.l + lab2.l) / 2,
+		cMean = (c1p + c2p) / 2
+	
+	let hMean = h1p + h2p
+	
+	if (c1p * c2p != 0) {
+		if (Math.abs(h1p - h2p) <= 180) {
+			hMean /= 2
+		} else if (hMean < 360) {
+			hMean = (hMean + 360) / 2
+		} else {
+			hMean = (hMean - 360) / 2
+		}
+	}
+	
+	const t = 1
+		- 0.17 * Math.cos(radians(hMean - 30))
+		+ 0.24 * Math.cos(radians(2 * hMean))
+		+ 0.32 * Math.cos(radians(3 * hMean + 6))
+		- 0.20 * Math.cos(radians(4 * hMean - 63))
+	
+	const cMeanP7 = cMean ** 7,
+		rC = 2 * Math.sqrt(cMeanP7 / (cMeanP7 + 25 ** 7)),
+		dTheta = 30 * Math.exp(-(((hMean - 275) / 25) ** 2)),
+		rT = -Math.sin(radians(2 * dTheta)) * rC
+	
+	const sL = 1 + 0.015 * (lMean - 50) ** 2 / Math.sqrt(20 + (lMean - 50) ** 2),
+		sC = 1 + 0.045 * cMean,
+		sH = 1 + 0.015 * cMean * t
+	
+	return Math.sqrt(
+		(dLp / sL) ** 2 +
+		(dCp / sC) ** 2 +
+		(dHp / sH) ** 2 +
+		rT * (dCp / sC) * (dHp / sH)
+	)
+}
+
+/**
+ * Delta E CMC l:c
+ * Not symmetric, lab1 is the reference color
+ */
+export function deltaECMC(lab1: Lab, lab2: Lab, weights: CMCWeights = {}): number {
+	const { l = 2, c = 1 } = weights
+	
+	const c1 = Math.sqrt(lab1.a ** 2 + lab1.b ** 2),
+		c2 = Math.sqrt(lab2.a ** 2 + lab2.b ** 2),
+		h1 = hueDegrees(lab1.a, lab1.b)
+	
+	const dL = lab1.l - lab2.l,
+		dC = c1 - c2,
+		dH2 = Math.max(0, (lab1.a - lab2.a) ** 2 + (lab1.b - lab2.b) ** 2 - dC ** 2)
+	
+	const f = Math.sqrt(c1 ** 4 / (c1 ** 4 + 1900)),
+		t = h1 >= 164 && h1 <= 345
+			? 0.56 + Math.abs(0.2 * Math.cos(radians(h1 + 168)))
+			: 0.36 + Math.abs(0.4 * Math.cos(radians(h1 + 35)))
+	
+	const sL = lab1.l < 16 ? 0.511 : 0.040975 * lab1.l / (1 + 0.01765 * lab1.l),
+		sC = 0.0638 * c1 / (1 + 0.0131 * c1) + 0.638,
+		sH = sC * (f * t + 1 - f)
+	
+	return Math.sqrt((dL / (l * sL)) ** 2 + (dC / (c * sC)) ** 2 + dH2 / sH ** 2)
+}
+
+/**
+ * Delta E OK, euclidean distance in OKLab
+ */
+export function deltaEOK(oklab1: OKLab, oklab2: OKLab): number {
+	return Math.sqrt(
+		(oklab1.l - oklab2.l) ** 2 +
+		(oklab1.a - oklab2.a) ** 2 +
+		(oklab1.b - oklab2.b) ** 2
+	)
+}
+
+function hueDegrees(a: number, b: number): number {
+	if (a == 0 && b == 0) {
+		return 0
+	}
+	
+	const degrees = Math.atan2(b, a) * 180 / Math.PI
+	
+	return degrees < 0 ? degrees + 360 : degrees
+}
+
+function radians(degrees: number): number {
+	return degrees * Math.PI / 180
+}
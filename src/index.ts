@@ -16,3 +16,14 @@ if (!String.prototype.padStart) {
 }
 
 export * from './color'
+export * from './namedColors'
+export * from './deltaE'
+export * from './apca'
+export * from './scale'
+export * from './colorVision'
+export * from './blend'
+export * from './colorSpaces'
+export * from './temperature'
+export * from './spectral'
+export * from './palette'
+export * from './quantize'
@@ -0,0 +1,434 @@
+import { Color, RGB } from './color'
+
+/**
+ * How pixels are grouped into palette colors
+ *  - median-cut: repeatedly splits the box with the largest spread at its median, fast and stable
+ *  - k-means: refines clusters around the most distinct colors, slower but closer to the image
+ *  - octree: merges the least common colors of an octree, keeps small but saturated accents
+ */
+export type PaletteAlgorithm = 'median-cut' | 'k-means' | 'octree'
+
+/**
+ * Color space pixels are grouped in
+ */
+export type PaletteSpace = 'srgb' | 'oklab' | 'lab'
+
+/**
+ * Options for {@link Color.extractPalette}
+ */
+export interface PaletteOptions {
+	/**
+	 * Maximum number of colors, a whole number of at least 1, defaults to 5
+	 */
+	count?: number
+	
+	/**
+	 * Defaults to median-cut
+	 */
+	algorithm?: PaletteAlgorithm
+	
+	/**
+	 * Defaults to oklab
+	 */
+	space?: PaletteSpace
+	
+	/**
+	 * Skip pixels with an alpha below 50%, defaults to true
+	 */
+	ignoreTransparent?: boolean
+}
+
+/**
+ * A palette color and how much of the image it covers
+ */
+export interface PaletteSwatch {
+	color: Color
+	
+	/**
+	 * Number of pixels
+	 */
+	population: number
+	
+	/**
+	 * Share of the counted pixels, 0 to 1
+	 */
+	weight: number
+}
+
+export interface Palette {
+	/**
+	 * Sorted by population, most common first
+	 */
+	swatches: PaletteSwatch[]
+	
+	/**
+	 * The most common color, null if no pixel was counted
+	 */
+	dominant: Color | null
+}
+
+/**
+ * A color in the palette space with the number of pixels it stands for
+ */
+interface WeightedPoint {
+	coords: number[]
+	weight: number
+}
+
+interface OctreeNode {
+	children: (OctreeNode | undefined)[]
+	sums: number[]
+	weight: number
+	leaf: boolean
+}
+
+// Pixels are counted in bins of 5 bits per channel first, so the algorithms only see up to 32768 colors
+const HISTOGRAM_BITS = 5
+const KMEANS_ITERATIONS = 50
+const OCTREE_DEPTH = 6
+
+// Ranges of each space used to place colors in the octree
+const SPACE_RANGES: Record<PaletteSpace, [number, number][]> = {
+	srgb: [[0, 255], [0, 255], [0, 255]],
+	oklab: [[0, 1], [-0.4, 0.4], [-0.4, 0.4]],
+	lab: [[0, 100], [-128, 128], [-128, 128]],
+}
+
+/**
+ * Extract the main colors of an RGBA pixel buffer, like the data of an ImageData or a decoded PNG
+ *
+ * @param {Uint8ClampedArray|Uint8Array}    pixels  RGBA pixels, row by row
+ * @param {number}                          width
+ * @param {number}                          height
+ * @param {PaletteOptions}                  options
+ */
+export function extractPalette(pixels: Uint8ClampedArray | Uint8Array, width: number, height: number, options: PaletteOptions = {}): Palette {
+	const { count = 5, algorithm = 'median-cut', space = 'oklab', ignoreTransparent = true } = options
+	
+	if (pixels.length < width * height * 4) {
+		throw new Error('The pixel buffer is smaller than width * height * 4')
+	}
+	
+	if (!Number.isInteger(count) || count < 1) {
+		throw new Error('A palette needs a whole number of at least one color')
+	}
+	
+	const points = histogram(pixels, width * height, space, ignoreTransparent),
+		total = population(points)
+	
+	if (total == 0) {
+		return { swatches: [], dominant: null }
+	}
+	
+	const clusters = algorithm == 'k-means' ? kMeans(points, count)
+		: algorithm == 'octree' ? octree(points, count, space)
+		: medianCut(points, count)
+	
+	const swatches = clusters
+		.map(cluster => ({
+			color: toColor(cluster.coords, space),
+			population: cluster.weight,
+			weight: cluster.weight / total,
+		}))
+		.sort((a, b) => b.population - a.population)
+	
+	return { swatches, dominant: swatches[0].color }
+}
+
+/**
+ * Count the pixels per bin and convert the average color of each bin to the palette space
+ */
+function histogram(pixels: Uint8ClampedArray | Uint8Array, length: number, space: PaletteSpace, ignoreTransparent: boolean): WeightedPoint[] {
+	const shift = 8 - HISTOGRAM_BITS,
+		bins = new Float64Array((1 << (3 * HISTOGRAM_BITS)) * 4)
+	
+	for (let i = 0; i < length; i++) {
+		const offset = i * 4
+		
+		if (ignoreTransparent && pixels[offset + 3] < 128) {
+			continue
+		}
+		
+		const r = pixels[offset],
+			g = pixels[offset + 1],
+			b = pixels[offset + 2],
+			bin = (((r >> shift) << (2 * HISTOGRAM_BITS)) | ((g >> shift) << HISTOGRAM_BITS) | (b >> shift)) * 4
+		
+		bins[bin] += r
+		bins[bin + 1] += g
+		bins[bin + 2] += b
+		bins[bin + 3]++
+	}
+	
+	const points: WeightedPoint[] = []
+	
+	for (let bin = 0; bin < bins.length; bin += 4) {
+		const weight = bins[bin + 3]
+		
+		if (weight > 0) {
+			points.push({
+				coords: toCoordinates({ r: bins[bin] / weight, g: bins[bin + 1] / weight, b: bins[bin + 2] / weight }, space),
+				weight
+			})
+		}
+	}
+	
+	return points
+}
+
+/**
+ * Split the box with the largest spread along its longest axis at the weighted median until there are enough boxes
+ */
+function medianCut(points: WeightedPoint[], count: number): WeightedPoint[] {
+	const boxes = [points]
+	
+	while (boxes.length < count) {
+		let best = -1,
+			bestAxis = 0,
+			bestScore = 0
+		
+		boxes.forEach((box, index) => {
+			for (let axis = 0; axis < 3; axis++) {
+				const values = box.map(point => point.coords[axis]),
+					score = (Math.max(...values) - Math.min(...values)) * population(box)
+				
+				if (score > bestScore) {
+					best = index
+					bestAxis = axis
+					bestScore = score
+				}
+			}
+		})
+		
+		// Every box is a single color
+		if (best < 0) {
+			break
+		}
+		
+		const box = boxes[best].slice().sort((a, b) => a.coords[bestAxis] - b.coords[bestAxis]),
+			half = population(box) / 2
+		
+		let split = 0,
+			sum = box[0].weight
+		
+		while (split < box.length - 2 && sum < half) {
+			sum += box[++split].weight
+		}
+		
+		boxes.splice(best, 1, box.slice(0, split + 1), box.slice(split + 1))
+	}
+	
+	return boxes.map(mean)
+}
+
+/**
+ * Weighted k-means, seeded deterministically with the most common color and then the most distant ones
+ */
+function kMeans(points: WeightedPoint[], count: number): WeightedPoint[] {
+	const centers = [points.reduce((a, b) => b.weight > a.weight ? b : a).coords],
+		distances = points.map(point => distance(point.coords, centers[0]))
+	
+	while (centers.length < count) {
+		let best = -1,
+			bestScore = 0
+		
+		points.forEach((point, index) => {
+			const score = distances[index] * point.weight
+			
+			if (score > bestScore) {
+				best = index
+				bestScore = score
+			}
+		})
+		
+		// Fewer distinct colors than requested
+		if (best < 0) {
+			break
+		}
+		
+		const center = points[best].coords
+		
+		centers.push(center)
+		points.forEach((point, index) => distances[index] = Math.min(distances[index], distance(point.coords, center)))
+	}
+	
+	const assignments = new Int32Array(points.length).fill(-1)
+	
+	let clusters: WeightedPoint[][] = []
+	
+	for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+		let changed = false
+		
+		points.forEach((point, index) => {
+			let nearest = 0
+			
+			for (let i = 1; i < centers.length; i++) {
+				if (distance(point.coords, centers[i]) < distance(point.coords, centers[nearest])) {
+					nearest = i
+				}
+			}
+			
+			if (assignments[index] != nearest) {
+				assignments[index] = nearest
+				changed = true
+			}
+		})
+		
+		clusters = centers.map(() => [])
+		points.forEach((point, index) => clusters[assignments[index]].push(point))
+		
+		if (!changed) {
+			break
+		}
+		
+		// Move each center to the mean of its colors, empty clusters keep their center
+		clusters.forEach((cluster, index) => {
+			if (cluster.length > 0) {
+				centers[index] = mean(cluster).coords
+			}
+		})
+	}
+	
+	return clusters.filter(cluster => cluster.length > 0).map(mean)
+}
+
+/**
+ * Insert all colors into an octree and merge the least common leaves, deepest first, until there are few enough
+ */
+function octree(points: WeightedPoint[], count: number, space: PaletteSpace): WeightedPoint[] {
+	const createNode = (): OctreeNode => ({ children: [], sums: [0, 0, 0], weight: 0, leaf: false }),
+		root = createNode(),
+		levels: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => [])
+	
+	let leaves = 0
+	
+	for (const point of points) {
+		const position = point.coords.map((value, axis) => {
+			const [min, max] = SPACE_RANGES[space][axis]
+			
+			return Math.round(Math.max(0, Math.min(1, (value - min) / (max - min))) * 255)
+		})
+		
+		let node = root
+		
+		for (let depth = 0; depth < OCTREE_DEPTH; depth++) {
+			const bit = 7 - depth,
+				index = ((position[0] >> bit) & 1) << 2 | ((position[1] >> bit) & 1) << 1 | ((position[2] >> bit) & 1)
+			
+			if (!node.children[index]) {
+				node.children[index] = createNode()
+				
+				if (depth < OCTREE_DEPTH - 1) {
+					levels[depth + 1].push(node.children[index]!)
+				}
+			}
+			
+			node = node.children[index]!
+		}
+		
+		if (!node.leaf) {
+			node.leaf = true
+			leaves++
+		}
+		
+		node.weight += point.weight
+		point.coords.forEach((value, axis) => node.sums[axis] += value * point.weight)
+	}
+	
+	levels[0].push(root)
+	
+	// Once a level is merged completely, all children of the level above are leaves
+	for (let depth = OCTREE_DEPTH - 1; depth >= 0 && leaves > count; depth--) {
+		const nodes = levels[depth]
+			.map(node => {
+				const children = node.children.filter((child): child is OctreeNode => !!child)
+				
+				return { node, children, weight: population(children) }
+			})
+			.sort((a, b) => a.weight - b.weight)
+		
+		for (const { node, children } of nodes) {
+			if (leaves <= count) {
+				break
+			}
+			
+			if (children.length - 1 <= leaves - count) {
+				mergeLeaves(node, children)
+				node.children = []
+				node.leaf = true
+				leaves -= children.length - 1
+			} else {
+				// Merging every child would leave fewer colors than requested, only merge the least common ones
+				const [target, ...merged] = children.sort((a, b) => a.weight - b.weight).slice(0, leaves - count + 1)
+				
+				mergeLeaves(target, merged)
+				node.children = node.children.map(child => child && merged.includes(child) ? undefined : child)
+				leaves = count
+			}
+		}
+	}
+	
+	const clusters: WeightedPoint[] = [],
+		collect = (node: OctreeNode) => {
+			if (node.leaf) {
+				clusters.push({ coords: node.sums.map(sum => sum / node.weight), weight: node.weight })
+			} else {
+				node.children.forEach(child => child && collect(child))
+			}
+		}
+	
+	collect(root)
+	
+	return clusters
+}
+
+function mergeLeaves(target: OctreeNode, leaves: OctreeNode[]) {
+	for (const leaf of leaves) {
+		leaf.sums.forEach((value, axis) => target.sums[axis] += value)
+		target.weight += leaf.weight
+	}
+}
+
+function population(points: { weight: number }[]): number {
+	return points.reduce((sum, point) => sum + point.weight, 0)
+}
+
+function mean(points: WeightedPoint[]): WeightedPoint {
+	const weight = population(points)
+	
+	return {
+		coords: [0, 1, 2].map(axis => points.reduce((sum, point) => sum + point.coords[axis] * point.weight, 0) / weight),
+		weight
+	}
+}
+
+/**
+ * Squared euclidean distance
+ */
+function distance(a: number[], b: number[]): number {
+	return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+}
+
+function toCoordinates(rgb: RGB, space: PaletteSpace): number[] {
+	const color = Color.fromRGB(rgb)
+	
+	switch (space) {
+		case 'srgb':
+			return [rgb.r, rgb.g, rgb.b]
+		case 'lab':
+			return [color.lab.l, color.lab.a, color.lab.b]
+		case 'oklab':
+			return [color.oklab.l, color.oklab.a, color.oklab.b]
+	}
+}
+
+function toColor([x, y, z]: number[], space: PaletteSpace): Color {
+	switch (space) {
+		case 'srgb':
+			return Color.fromRGB({ r: x, g: y, b: z })
+		case 'lab':
+			return Color.fromLab({ l: x, a: y, b: z })
+		case 'oklab':
+			return Color.fromOKLab({ l: x, a: y, b: z })
+	}
+}
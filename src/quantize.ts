@@ -0,0 +1,255 @@
+import { Color, Lab, RGB } from './color'
+import { CMCWeights, DeltaEMethod, deltaE2000, deltaE76, deltaE94, deltaECMC } from './deltaE'
+
+/**
+ * How the error of mapping a pixel to the nearest palette color is spread
+ *  - none: every pixel gets its nearest color, gradients turn into bands
+ *  - floyd-steinberg: error diffusion to the neighbouring pixels, smooth and detailed
+ *  - atkinson: error diffusion of 3/4 of the error, higher contrast, like early Macintosh graphics
+ *  - bayer: ordered dithering with a threshold matrix, a regular pattern that is stable between frames
+ */
+export type DitherMethod = 'none' | 'floyd-steinberg' | 'atkinson' | 'bayer'
+
+/**
+ * How the nearest palette color is found, either euclidean distance in sRGB (rgb, fastest) or a Delta E formula
+ */
+export type QuantizeMetric = 'rgb' | DeltaEMethod
+
+/**
+ * Options for {@link Color.quantize}
+ */
+export interface QuantizeOptions {
+	/**
+	 * Defaults to OK
+	 */
+	metric?: QuantizeMetric
+	
+	/**
+	 * l:c weights for the CMC metric, defaults to 2:1
+	 */
+	weights?: CMCWeights
+	
+	/**
+	 * Defaults to none
+	 */
+	dither?: DitherMethod
+	
+	/**
+	 * Size of the Bayer matrix, defaults to 4
+	 */
+	bayerSize?: 2 | 4 | 8
+}
+
+export interface QuantizedImage {
+	/**
+	 * RGBA pixels with every color replaced by a palette color, alpha is kept
+	 */
+	pixels: Uint8ClampedArray
+	
+	/**
+	 * Palette index of every pixel, e.g. for indexed images and displays
+	 */
+	indices: Uint16Array
+}
+
+/**
+ * Offsets and shares of the error passed to the neighbouring pixels
+ */
+const DIFFUSION_KERNELS: Record<'floyd-steinberg' | 'atkinson', [number, number, number][]> = {
+	'floyd-steinberg': [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]],
+	atkinson: [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]],
+}
+
+// Nearest colors are cached per 8 bit RGB color, the cache starts over once it holds this many
+const MAX_CACHED_COLORS = 1 << 18
+
+/**
+ * Map the pixels of an RGBA buffer to the nearest colors of a palette, optionally with dithering
+ *
+ * @param {Uint8ClampedArray|Uint8Array}    pixels  RGBA pixels, row by row
+ * @param {number}                          width
+ * @param {number}                          height
+ * @param {Color[]}                         palette Colors to use, alpha is ignored
+ * @param {QuantizeOptions}                 options
+ */
+export function quantizePixels(pixels: Uint8ClampedArray | Uint8Array, width: number, height: number, palette: Color[], options: QuantizeOptions = {}): QuantizedImage {
+	const { metric = 'OK', weights, dither = 'none', bayerSize = 4 } = options
+	
+	if (pixels.length < width * height * 4) {
+		throw new Error('The pixel buffer is smaller than width * height * 4')
+	}
+	
+	if (palette.length < 1 || palette.length > 65536) {
+		throw new Error('A palette needs between 1 and 65536 colors')
+	}
+	
+	const colors = palette.map(color => ({
+			r: Math.round(color.rgb.r),
+			g: Math.round(color.rgb.g),
+			b: Math.round(color.rgb.b)
+		})),
+		nearest = createNearestColor(colors, metric, weights),
+		result: QuantizedImage = {
+			pixels: new Uint8ClampedArray(width * height * 4),
+			indices: new Uint16Array(width * height)
+		}
+	
+	const write = (pixel: number, index: number) => {
+		const offset = pixel * 4
+		
+		result.indices[pixel] = index
+		result.pixels[offset] = colors[index].r
+		result.pixels[offset + 1] = colors[index].g
+		result.pixels[offset + 2] = colors[index].b
+		result.pixels[offset + 3] = pixels[offset + 3]
+	}
+	
+	if (dither == 'floyd-steinberg' || dither == 'atkinson') {
+		const kernel = DIFFUSION_KERNELS[dither],
+			channels = new Float32Array(width * height * 3)
+		
+		for (let pixel = 0; pixel < width * height; pixel++) {
+			channels.set(pixels.subarray(pixel * 4, pixel * 4 + 3), pixel * 3)
+		}
+		
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				const pixel = y * width + x,
+					offset = pixel * 3,
+					index = nearest(channels[offset], channels[offset + 1], channels[offset + 2]),
+					errorR = channels[offset] - colors[index].r,
+					errorG = channels[offset + 1] - colors[index].g,
+					errorB = channels[offset + 2] - colors[index].b
+				
+				write(pixel, index)
+				
+				for (const [dx, dy, share] of kernel) {
+					if (x + dx < 0 || x + dx >= width || y + dy >= height) {
+						continue
+					}
+					
+					const neighbour = (pixel + dy * width + dx) * 3
+					
+					channels[neighbour] += errorR * share
+					channels[neighbour + 1] += errorG * share
+					channels[neighbour + 2] += errorB * share
+				}
+			}
+		}
+	} else if (dither == 'bayer') {
+		const matrix = bayerMatrix(bayerSize),
+			spread = paletteSpread(colors)
+		
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				const pixel = y * width + x,
+					offset = pixel * 4,
+					threshold = matrix[y % bayerSize][x % bayerSize] * spread
+				
+				write(pixel, nearest(pixels[offset] + threshold, pixels[offset + 1] + threshold, pixels[offset + 2] + threshold))
+			}
+		}
+	} else {
+		for (let pixel = 0; pixel < width * height; pixel++) {
+			const offset = pixel * 4
+			
+			write(pixel, nearest(pixels[offset], pixels[offset + 1], pixels[offset + 2]))
+		}
+	}
+	
+	return result
+}
+
+/**
+ * Create a cached lookup of the palette index nearest to an RGB color, channels are rounded and clamped first
+ */
+function createNearestColor(colors: RGB[], metric: QuantizeMetric, weights?: CMCWeights): (r: number, g: number, b: number) => number {
+	// Every metric works on l, a and b, sRGB channels are used as they are
+	const toSpace = (rgb: RGB): Lab => {
+		switch (metric) {
+			case 'rgb': return { l: rgb.r, a: rgb.g, b: rgb.b }
+			case 'OK': return Color.rgbToOklab(rgb)
+			default: return Color.xyzToLab(Color.adaptXyz(Color.rgbToXyz(rgb), 'D65', 'D50'), 'D50')
+		}
+	}
+	
+	// The pixel is the reference for the asymmetric formulas
+	const distance = (pixel: Lab, color: Lab): number => {
+		switch (metric) {
+			case 'CIE94': return deltaE94(pixel, color)
+			case 'CMC': return deltaECMC(pixel, color, weights)
+			case 'CIEDE2000': return deltaE2000(pixel, color)
+			default: return deltaE76(pixel, color)
+		}
+	}
+	
+	const targets = colors.map(toSpace),
+		cache = new Map<number, number>()
+	
+	const channel = (value: number) => Math.max(0, Math.min(255, Math.round(value)))
+	
+	return (r: number, g: number, b: number) => {
+		const key = (channel(r) << 16) | (channel(g) << 8) | channel(b)
+		
+		let index = cache.get(key)
+		
+		if (index === undefined) {
+			const pixel = toSpace({ r: key >> 16, g: (key >> 8) & 255, b: key & 255 })
+			
+			let best = Infinity
+			
+			index = 0
+			
+			for (let i = 0; i < targets.length; i++) {
+				const value = distance(pixel, targets[i])
+				
+				if (value < best) {
+					best = value
+					index = i
+				}
+			}
+			
+			if (cache.size >= MAX_CACHED_COLORS) {
+				cache.clear()
+			}
+			
+			cache.set(key, index)
+		}
+		
+		return index
+	}
+}
+
+/**
+ * Threshold matrix for ordered dithering, values between -0.5 and 0.5
+ */
+function bayerMatrix(size: number): number[][] {
+	let matrix = [[0]]
+	
+	while (matrix.length < size) {
+		const n = matrix.length
+		
+		matrix = Array.from({ length: n * 2 }, (_, y) => Array.from({ length: n * 2 }, (_, x) => {
+			const value = 4 * matrix[y % n][x % n]
+			
+			return y < n ? (x < n ? value : value + 2) : (x < n ? value + 3 : value + 1)
+		}))
+	}
+	
+	return matrix.map(row => row.map(value => (value + 0.5) / (size * size) - 0.5))
+}
+
+/**
+ * Average distance between neighbouring palette colors per channel, used as the strength of ordered dithering
+ */
+function paletteSpread(colors: RGB[]): number {
+	if (colors.length < 2) {
+		return 0
+	}
+	
+	const distances = colors.map(color => Math.min(...colors
+		.filter(other => other !== color)
+		.map(other => Math.hypot(color.r - other.r, color.g - other.g, color.b - other.b))))
+	
+	return distances.reduce((sum, distance) => sum + distance, 0) / distances.length / Math.sqrt(3)
+}
@@ -0,0 +1,370 @@
+import { Color, HueInterpolation, InterpolationSpace } from './color'
+
+/**
+ * How a scale blends between its colors
+ *  - linear: piecewise interpolation between neighbouring colors in the scale's space
+ *  - bezier: a smooth Bézier curve in Lab using all colors as control points
+ *  - cubehelix: piecewise interpolation in the Cubehelix space, which keeps lightness monotonic
+ */
+export type ScaleMode = 'linear' | 'bezier' | 'cubehelix'
+
+/**
+ * Options for {@link Color.createScale}
+ */
+export interface ScaleOptions {
+	/**
+	 * Input values, either the start and end of the scale or one value per color, defaults to [0, 1]
+	 */
+	domain?: number[]
+	
+	/**
+	 * Color space for linear interpolation, defaults to oklab
+	 */
+	space?: InterpolationSpace
+	
+	/**
+	 * Hue interpolation method for polar spaces, defaults to shorter
+	 */
+	hue?: HueInterpolation
+	
+	/**
+	 * Interpolation mode, defaults to linear
+	 */
+	mode?: ScaleMode
+	
+	/**
+	 * Split the scale into discrete colors, either a number of equally sized classes
+	 * or the class breaks in domain values, including both ends
+	 */
+	classes?: number | number[]
+	
+	/**
+	 * Exponent applied to the position on the scale, above 1 stays longer at the start, defaults to 1
+	 */
+	gamma?: number
+	
+	/**
+	 * Cut off a part of the scale at both ends (0 to 1), either one value for both ends or [start, end]
+	 */
+	padding?: number | [number, number]
+}
+
+// Cubehelix constants by Dave Green, https://www.mrao.cam.ac.uk/~dag/CUBEHELIX/
+const A = -0.14861
+const B = 1.78277
+const C = -0.29227
+const D = -0.90649
+const E = 1.97294
+
+/**
+ * A function from numbers to colors, create one using {@link Color.createScale}
+ */
+export class ColorScale {
+	private readonly stops: Color[]
+	private readonly stopValues: number[]
+	private readonly options: ScaleOptions
+	private readonly breaks: number[] | null
+	
+	constructor(colors: Color[], options: ScaleOptions = {}) {
+		if (colors.length == 0) {
+			throw new Error('At least one color is required')
+		}
+		
+		const { domain = [0, 1] } = options
+		
+		if (domain.length == 2) {
+			// Distribute the colors evenly between the two values
+			this.stopValues = colors.map((_, i) => colors.length == 1
+				? domain[0]
+				: domain[0] + (domain[1] - domain[0]) * i / (colors.length - 1)
+			)
+		} else if (domain.length == colors.length) {
+			this.stopValues = domain.slice()
+		} else {
+			throw new Error('Domain must have two values or one per color')
+		}
+		
+		this.stops = colors.slice()
+		this.options = options
+		this.breaks = ColorScale.calculateBreaks(options.classes, this.stopValues)
+	}
+	
+	/**
+	 * Domain values of the colors
+	 */
+	public get domain(): number[] {
+		return this.stopValues.slice()
+	}
+	
+	/**
+	 * Class breaks including both ends, null if the scale is continuous
+	 */
+	public get classes(): number[] | null {
+		return this.breaks ? this.breaks.slice() : null
+	}
+	
+	/**
+	 * Get the color for a value, values outside of the domain get the color of the closest end
+	 */
+	public at(value: number): Color {
+		return this.colorAt(this.position(value))
+	}
+	
+	/**
+	 * Sample colors evenly spaced over the domain, including both ends
+	 *
+	 * @param {number} count    Number of colors, defaults to the number of classes or colors
+	 */
+	public colors(count?: number): Color[] {
+		if (count === undefined) {
+			count = this.breaks ? this.breaks.length - 1 : this.stops.length
+		}
+		
+		if (this.breaks && count == this.breaks.length - 1) {
+			// One color per class
+			return this.breaks.slice(0, -1).map(value => this.at(value))
+		}
+		
+		const first = this.stopValues[0],
+			last = this.stopValues[this.stopValues.length - 1]
+		
+		return Array.from({ length: count }, (_, i) => this.at(count == 1 ? first : first + (last - first) * i / (count! - 1)))
+	}
+	
+	/**
+	 * Get the domain value whose color is closest to the passed color (in OKLab)
+	 * For discrete scales, this is the start of the matching class.
+	 */
+	public invert(color: Color): number {
+		const first = this.stopValues[0],
+			last = this.stopValues[this.stopValues.length - 1],
+			samples = 256,
+			distanceAt = (value: number) => Color.deltaEOK(this.at(value), color)
+		
+		let best = first,
+			bestDistance = Infinity
+		
+		for (let i = 0; i <= samples; i++) {
+			const value = first + (last - first) * i / samples,
+				distance = distanceAt(value)
+			
+			if (distance < bestDistance) {
+				best = value
+				bestDistance = distance
+			}
+		}
+		
+		// Refine around the best sample
+		const min = Math.min(first, last),
+			max = Math.max(first, last)
+		
+		let step = (last - first) / samples
+		
+		for (let i = 0; i < 32; i++) {
+			for (const candidate of [best - step, best + step]) {
+				if (candidate < min || candidate > max) {
+					continue
+				}
+				
+				const distance = distanceAt(candidate)
+				
+				if (distance < bestDistance) {
+					best = candidate
+					bestDistance = distance
+				}
+			}
+			
+			step /= 2
+		}
+		
+		return best
+	}
+	
+	/**
+	 * Map a domain value to a position on the scale, 0 to 1
+	 */
+	private position(value: number): number {
+		const values = this.stopValues
+		
+		if (this.breaks) {
+			const breaks = this.breaks,
+				descending = breaks[0] > breaks[breaks.length - 1]
+			
+			let index = 0
+			
+			for (let i = 1; i < breaks.length - 1; i++) {
+				if (descending ? value <= breaks[i] : value >= breaks[i]) {
+					index = i
+				}
+			}
+			
+			// Classes are evenly distributed from the first to the last break, so they follow the domain
+			value = breaks.length <= 2
+				? breaks[0]
+				: breaks[0] + (breaks[breaks.length - 1] - breaks[0]) * index / (breaks.length - 2)
+		}
+		
+		if (values.length == 1) {
+			return 0
+		}
+		
+		const segments = values.length - 1
+		
+		for (let i = 0; i < segments; i++) {
+			const start = values[i],
+				end = values[i + 1],
+				isLast = i == segments - 1
+			
+			if (start == end) {
+				continue
+			}
+			
+			const local = (value - start) / (end - start)
+			
+			if (local <= 1 || isLast) {
+				return this.adjust((i + Math.max(0, Math.min(1, local))) / segments)
+			}
+		}
+		
+		return this.adjust(1)
+	}
+	
+	/**
+	 * Apply gamma and padding to a position
+	 */
+	private adjust(t: number): number {
+		const { gamma = 1, padding = 0 } = this.options,
+			[start, end] = typeof padding == 'number' ? [padding, padding] : padding
+		
+		t = Math.pow(Math.max(0, Math.min(1, t)), gamma)
+		
+		return start + t * (1 - start - end)
+	}
+	
+	/**
+	 * Get the color at a position on the scale, 0 to 1
+	 */
+	private colorAt(t: number): Color {
+		const stops = this.stops,
+			{ mode = 'linear', space = 'oklab', hue = 'shorter' } = this.options
+		
+		if (stops.length == 1) {
+			return stops[0]
+		}
+		
+		t = Math.max(0, Math.min(1, t))
+		
+		if (mode == 'bezier') {
+			return ColorScale.bezier(stops, t)
+		}
+		
+		const segments = stops.length - 1,
+			segment = Math.min(Math.floor(t * segments), segments - 1),
+			local = t * segments - segment
+		
+		if (mode == 'cubehelix') {
+			return ColorScale.interpolateCubehelix(stops[segment], stops[segment + 1], local)
+		}
+		
+		return Color.interpolate(stops[segment], stops[segment + 1], local, { space, hue })
+	}
+	
+	private static calculateBreaks(classes: number | number[] | undefined, values: number[]): number[] | null {
+		if (classes === undefined) {
+			return null
+		}
+		
+		if (Array.isArray(classes)) {
+			if (classes.length < 2) {
+				throw new Error('Class breaks must include both ends')
+			}
+			
+			return classes.slice()
+		}
+		
+		if (classes < 1) {
+			throw new Error('At least one class is required')
+		}
+		
+		const first = values[0],
+			last = values[values.length - 1]
+		
+		return Array.from({ length: classes + 1 }, (_, i) => first + (last - first) * i / classes)
+	}
+	
+	/**
+	 * De Casteljau's algorithm in Lab with all colors as control points
+	 */
+	private static bezier(colors: Color[], t: number): Color {
+		let points = colors.map(color => [color.lab.l, color.lab.a, color.lab.b, color.alpha])
+		
+		while (points.length > 1) {
+			points = points.slice(1).map((point, i) => point.map((value, j) => points[i][j] + (value - points[i][j]) * t))
+		}
+		
+		const [l, a, b, alpha] = points[0]
+		
+		return Color.fromLab({ l, a, b }, alpha)
+	}
+	
+	private static interpolateCubehelix(color1: Color, color2: Color, t: number): Color {
+		const [h1, s1, l1] = ColorScale.rgbToCubehelix(color1),
+			[h2, s2, l2] = ColorScale.rgbToCubehelix(color2)
+		
+		// Achromatic colors take the hue of the other color, then take the shorter arc
+		let start = Number.isNaN(h1) ? h2 : h1,
+			end = Number.isNaN(h2) ? start : h2
+		
+		if (Number.isNaN(start)) {
+			start = end = 0
+		}
+		
+		if (end - start > 180) {
+			start += 360
+		} else if (start - end > 180) {
+			end += 360
+		}
+		
+		const saturation1 = Number.isNaN(s1) ? s2 : s1,
+			saturation2 = Number.isNaN(s2) ? saturation1 : s2
+		
+		return ColorScale.cubehelixToColor(
+			start + (end - start) * t,
+			(saturation1 || 0) + ((saturation2 || 0) - (saturation1 || 0)) * t,
+			l1 + (l2 - l1) * t,
+			color1.alpha + (color2.alpha - color1.alpha) * t
+		)
+	}
+	
+	/**
+	 * Get hue in degrees, saturation and lightness 0 to 1 in Cubehelix, hue is NaN for grays
+	 */
+	private static rgbToCubehelix(color: Color): [number, number, number] {
+		const r = color.rgb.r / 255,
+			g = color.rgb.g / 255,
+			b = color.rgb.b / 255
+		
+		const l = ((B * C - D * A) * b + E * D * r - E * B * g) / (B * C - D * A + E * D - E * B),
+			bl = b - l,
+			k = (E * (g - l) - C * bl) / D,
+			s = l > 0 && l < 1 ? Math.sqrt(k * k + bl * bl) / (E * l * (1 - l)) : NaN,
+			h = s ? Math.atan2(k, bl) * 180 / Math.PI - 120 : NaN
+		
+		return [h < 0 ? h + 360 : h, s, l]
+	}
+	
+	private static cubehelixToColor(h: number, s: number, l: number, alpha: number): Color {
+		const radians = (h + 120) * Math.PI / 180,
+			amplitude = s * l * (1 - l),
+			cos = Math.cos(radians),
+			sin = Math.sin(radians)
+		
+		const channel = (value: number) => Math.max(0, Math.min(1, value)) * 255
+		
+		return Color.fromRGB({
+			r: channel(l + amplitude * (A * cos + B * sin)),
+			g: channel(l + amplitude * (C * cos + D * sin)),
+			b: channel(l + amplitude * E * cos)
+		}, alpha)
+	}
+}
@@ -0,0 +1,389 @@
+import type { XYZ } from './color'
+
+/**
+ * A CIE standard observer
+ *  - CIE1931: 2° field of view, used by sRGB and most color spaces
+ *  - CIE1964: 10° field of view, for samples larger than about 4°
+ */
+export type StandardObserver = 'CIE1931' | 'CIE1964'
+
+/**
+ * A CIE standard illuminant
+ *  - A: incandescent light (2856K)
+ *  - D50, D65: daylight, D50 is used for printing, D65 for screens
+ *  - F2: cool white fluorescent
+ *  - F11: narrow band (tri-phosphor) fluorescent
+ */
+export type Illuminant = 'A' | 'D50' | 'D65' | 'F2' | 'F11'
+
+/**
+ * Samples of a spectrum as [wavelength in nm, value] pairs, in any order and spacing
+ */
+export type Spectrum = [number, number][]
+
+/**
+ * Options for {@link Color.fromSpectrum}
+ */
+export interface SpectrumOptions {
+	/**
+	 * Reflectance (0 to 1) of a surface or the emission of a light source, defaults to reflectance
+	 */
+	type?: 'reflectance' | 'emission'
+	
+	/**
+	 * Light a surface is seen under, defaults to D65
+	 */
+	illuminant?: Illuminant
+	
+	/**
+	 * Defaults to CIE1931
+	 */
+	observer?: StandardObserver
+}
+
+// All tables go from 380 to 780 nm in steps of 5 nm
+const START = 380
+const END = 780
+const STEP = 5
+
+/**
+ * Color matching functions x̄, ȳ and z̄ of the standard observers
+ */
+const OBSERVERS: Record<StandardObserver, number[][]> = {
+	CIE1931: [
+		[0.001368, 0.000039, 0.006450001], // 380
+		[0.002236, 0.000064, 0.01054999],
+		[0.004243, 0.00012, 0.02005001],
+		[0.00765, 0.000217, 0.03621],
+		[0.01431, 0.000396, 0.06785001],
+		[0.02319, 0.00064, 0.1102],
+		[0.04351, 0.00121, 0.2074],
+		[0.07763, 0.00218, 0.3713],
+		[0.13438, 0.004, 0.6456],
+		[0.21477, 0.0073, 1.03905],
+		[0.2839, 0.0116, 1.3856], // 430
+		[0.3285, 0.01684, 1.62296],
+		[0.34828, 0.023, 1.74706],
+		[0.34806, 0.0298, 1.7826],
+		[0.3362, 0.038, 1.77211],
+		[0.3187, 0.048, 1.7441],
+		[0.2908, 0.06, 1.6692],
+		[0.2511, 0.0739, 1.5281],
+		[0.19536, 0.09098, 1.28764],
+		[0.1421, 0.1126, 1.0419],
+		[0.09564, 0.13902, 0.8129501], // 480
+		[0.05795001, 0.1693, 0.6162],
+		[0.03201, 0.20802, 0.46518],
+		[0.0147, 0.2586, 0.3533],
+		[0.0049, 0.323, 0.272],
+		[0.0024, 0.4073, 0.2123],
+		[0.0093, 0.503, 0.1582],
+		[0.0291, 0.6082, 0.1117],
+		[0.06327, 0.71, 0.07824999],
+		[0.1096, 0.7932, 0.05725001],
+		[0.1655, 0.862, 0.04216], // 530
+		[0.2257499, 0.9148501, 0.02984],
+		[0.2904, 0.954, 0.0203],
+		[0.3597, 0.9803, 0.0134],
+		[0.4334499, 0.9949501, 0.008749999],
+		[0.5120501, 1, 0.005749999],
+		[0.5945, 0.995, 0.0039],
+		[0.6784, 0.9786, 0.002749999],
+		[0.7621, 0.952, 0.0021],
+		[0.8425, 0.9154, 0.0018],
+		[0.9163, 0.87, 0.001650001], // 580
+		[0.9786, 0.8163, 0.0014],
+		[1.0263, 0.757, 0.0011],
+		[1.0567, 0.6949, 0.001],
+		[1.0622, 0.631, 0.0008],
+		[1.0456, 0.5668, 0.0006],
+		[1.0026, 0.503, 0.00034],
+		[0.9384, 0.4412, 0.00024],
+		[0.8544499, 0.381, 0.00019],
+		[0.7514, 0.321, 0.0001],
+		[0.6424, 0.265, 0.00004999999], // 630
+		[0.5419, 0.217, 0.00003],
+		[0.4479, 0.175, 0.00002],
+		[0.3608, 0.1382, 0.00001],
+		[0.2835, 0.107, 0],
+		[0.2187, 0.0816, 0],
+		[0.1649, 0.061, 0],
+		[0.1212, 0.04458, 0],
+		[0.0874, 0.032, 0],
+		[0.0636, 0.0232, 0],
+		[0.04677, 0.017, 0], // 680
+		[0.0329, 0.01192, 0],
+		[0.0227, 0.00821, 0],
+		[0.01584, 0.005723, 0],
+		[0.01135916, 0.004102, 0],
+		[0.008110916, 0.002929, 0],
+		[0.005790346, 0.002091, 0],
+		[0.004109457, 0.001484, 0],
+		[0.002899327, 0.001047, 0],
+		[0.00204919, 0.00074, 0],
+		[0.001439971, 0.00052, 0], // 730
+		[0.0009999493, 0.0003611, 0],
+		[0.0006900786, 0.0002492, 0],
+		[0.0004760213, 0.0001719, 0],
+		[0.0003323011, 0.00012, 0],
+		[0.0002348261, 0.0000848, 0],
+		[0.0001661505, 0.00006, 0],
+		[0.000117413, 0.0000424, 0],
+		[0.00008307527, 0.00003, 0],
+		[0.00005870652, 0.0000212, 0],
+		[0.00004150994, 0.00001499, 0], // 780
+	],
+	CIE1964: [
+		[0.00016, 0.000017, 0.000705], // 380
+		[0.000662, 0.000072, 0.002928],
+		[0.002362, 0.000253, 0.010482],
+		[0.007242, 0.000769, 0.032344],
+		[0.01911, 0.002004, 0.086011],
+		[0.0434, 0.004509, 0.19712],
+		[0.084736, 0.008756, 0.389366],
+		[0.140638, 0.014456, 0.65676],
+		[0.204492, 0.021391, 0.972542],
+		[0.264737, 0.029497, 1.2825],
+		[0.314679, 0.038676, 1.55348], // 430
+		[0.357719, 0.049602, 1.7985],
+		[0.383734, 0.062077, 1.96728],
+		[0.386726, 0.074704, 2.0273],
+		[0.370702, 0.089456, 1.9948],
+		[0.342957, 0.106256, 1.9007],
+		[0.302273, 0.128201, 1.74537],
+		[0.254085, 0.152761, 1.5549],
+		[0.195618, 0.18519, 1.31756],
+		[0.132349, 0.21994, 1.0302],
+		[0.080507, 0.253589, 0.772125], // 480
+		[0.041072, 0.297665, 0.57006],
+		[0.016172, 0.339133, 0.415254],
+		[0.005132, 0.395379, 0.302356],
+		[0.003816, 0.460777, 0.218502],
+		[0.015444, 0.53136, 0.159249],
+		[0.037465, 0.606741, 0.112044],
+		[0.071358, 0.68566, 0.082248],
+		[0.117749, 0.761757, 0.060709],
+		[0.172953, 0.82333, 0.04305],
+		[0.236491, 0.875211, 0.030451], // 530
+		[0.304213, 0.92381, 0.020584],
+		[0.376772, 0.961988, 0.013676],
+		[0.451584, 0.9822, 0.007918],
+		[0.529826, 0.991761, 0.003988],
+		[0.616053, 0.99911, 0.001091],
+		[0.705224, 0.99734, 0],
+		[0.793832, 0.98238, 0],
+		[0.878655, 0.955552, 0],
+		[0.951162, 0.915175, 0],
+		[1.01416, 0.868934, 0], // 580
+		[1.0743, 0.825623, 0],
+		[1.11852, 0.777405, 0],
+		[1.1343, 0.720353, 0],
+		[1.12399, 0.658341, 0],
+		[1.0891, 0.593878, 0],
+		[1.03048, 0.527963, 0],
+		[0.95074, 0.461834, 0],
+		[0.856297, 0.398057, 0],
+		[0.75493, 0.339554, 0],
+		[0.647467, 0.283493, 0], // 630
+		[0.53511, 0.228254, 0],
+		[0.431567, 0.179828, 0],
+		[0.34369, 0.140211, 0],
+		[0.268329, 0.107633, 0],
+		[0.2043, 0.081187, 0],
+		[0.152568, 0.060281, 0],
+		[0.11221, 0.044096, 0],
+		[0.081261, 0.0318, 0],
+		[0.05793, 0.022602, 0],
+		[0.040851, 0.015905, 0], // 680
+		[0.028623, 0.01113, 0],
+		[0.019941, 0.007749, 0],
+		[0.013842, 0.005375, 0],
+		[0.009577, 0.003718, 0],
+		[0.006605, 0.002565, 0],
+		[0.004553, 0.001768, 0],
+		[0.003145, 0.001222, 0],
+		[0.002175, 0.000846, 0],
+		[0.001506, 0.000586, 0],
+		[0.001045, 0.000407, 0], // 730
+		[0.000727, 0.000284, 0],
+		[0.000508, 0.000199, 0],
+		[0.000356, 0.00014, 0],
+		[0.000251, 0.000098, 0],
+		[0.000178, 0.00007, 0],
+		[0.000126, 0.00005, 0],
+		[0.00009, 0.000036, 0],
+		[0.000065, 0.000025, 0],
+		[0.000046, 0.000018, 0],
+		[0.000033, 0.000013, 0], // 780
+	],
+}
+
+/**
+ * Relative spectral power distributions of the illuminants, A follows from Planck's law
+ */
+const ILLUMINANTS: Record<Illuminant, number[]> = {
+	A: Array.from({ length: (END - START) / STEP + 1 }, (_, i) => {
+		const wavelength = START + i * STEP
+		
+		return 100 * Math.pow(560 / wavelength, 5) * (Math.exp(1.435e7 / (2848 * 560)) - 1) / (Math.exp(1.435e7 / (2848 * wavelength)) - 1)
+	}),
+	D50: [
+		24.488, 27.179, 29.871, 39.589, 49.308, 52.91, 56.513, 58.273, 60.034, 58.926, // 380
+		57.818, 66.321, 74.825, 81.036, 87.247, 88.93, 90.612, 90.99, 91.368, 93.238, // 430
+		95.109, 93.536, 91.963, 93.843, 95.724, 96.169, 96.613, 96.871, 97.129, 99.614, // 480
+		102.099, 101.427, 100.755, 101.536, 102.317, 101.159, 100, 98.868, 97.735, 98.327, // 530
+		98.918, 96.208, 93.499, 95.593, 97.688, 98.478, 99.269, 99.155, 99.042, 97.382, // 580
+		95.722, 97.29, 98.857, 97.262, 95.667, 96.929, 98.19, 100.597, 103.003, 101.068, // 630
+		99.133, 93.257, 87.381, 89.492, 91.604, 92.246, 92.889, 84.872, 76.854, 81.683, // 680
+		86.511, 89.546, 92.58, 85.405, 78.23, 67.961, 57.692, 70.307, 82.923, 80.599, // 730
+		78.274, // 780
+	],
+	D65: [
+		49.9755, 52.3118, 54.6482, 68.7015, 82.7549, 87.1204, 91.486, 92.4589, 93.4318, 90.057, // 380
+		86.6823, 95.7736, 104.865, 110.936, 117.008, 117.41, 117.812, 116.336, 114.861, 115.392, // 430
+		115.923, 112.367, 108.811, 109.082, 109.354, 108.578, 107.802, 106.296, 104.79, 106.239, // 480
+		107.689, 106.047, 104.405, 104.225, 104.046, 102.023, 100, 98.1671, 96.3342, 96.0611, // 530
+		95.788, 92.2368, 88.6856, 89.3459, 90.0062, 89.8026, 89.5991, 88.6489, 87.6987, 85.4936, // 580
+		83.2886, 83.4939, 83.6992, 81.863, 80.0268, 80.1207, 80.2146, 81.2462, 82.2778, 80.281, // 630
+		78.2842, 74.0027, 69.7213, 70.6652, 71.6091, 72.979, 74.349, 67.9765, 61.604, 65.7448, // 680
+		69.8856, 72.4863, 75.087, 69.3398, 63.5927, 55.0054, 46.4182, 56.6118, 66.8054, 65.0941, // 730
+		63.3828, // 780
+	],
+	F2: [
+		1.18, 1.48, 1.84, 2.15, 3.44, 15.69, 3.85, 3.74, 4.19, 4.62, // 380
+		5.06, 34.98, 11.81, 6.27, 6.63, 6.93, 7.19, 7.4, 7.54, 7.62, // 430
+		7.65, 7.62, 7.62, 7.45, 7.28, 7.15, 7.05, 7.04, 7.16, 7.47, // 480
+		8.04, 8.88, 10.01, 24.88, 16.64, 14.59, 16.16, 17.56, 18.62, 21.47, // 530
+		22.79, 19.29, 18.66, 17.73, 16.54, 15.21, 13.8, 12.36, 10.95, 9.65, // 580
+		8.4, 7.32, 6.31, 5.43, 4.68, 4.02, 3.45, 2.96, 2.55, 2.19, // 630
+		1.89, 1.64, 1.53, 1.27, 1.1, 0.99, 0.88, 0.76, 0.68, 0.61, // 680
+		0.56, 0.54, 0.51, 0.47, 0.47, 0.43, 0.46, 0.47, 0.4, 0.33, // 730
+		0.27, // 780
+	],
+	F11: [
+		0.91, 0.63, 0.46, 0.37, 1.29, 12.68, 1.59, 1.79, 2.46, 3.33, // 380
+		4.49, 33.94, 12.13, 6.95, 7.19, 7.12, 6.72, 6.13, 5.46, 4.79, // 430
+		5.66, 14.29, 14.96, 8.97, 4.72, 2.33, 1.47, 1.1, 0.89, 0.83, // 480
+		1.18, 4.9, 39.59, 72.84, 32.61, 7.52, 2.83, 1.96, 1.67, 4.43, // 530
+		11.28, 14.76, 12.73, 9.74, 7.33, 9.72, 55.27, 42.58, 13.18, 13.16, // 580
+		12.26, 5.11, 2.07, 2.34, 3.58, 3.01, 2.48, 2.14, 1.54, 1.33, // 630
+		1.46, 1.94, 2, 1.2, 1.35, 4.1, 5.58, 2.51, 0.57, 0.27, // 680
+		0.23, 0.21, 0.24, 0.24, 0.2, 0.24, 0.32, 0.26, 0.16, 0.12, // 730
+		0.09, // 780
+	],
+}
+
+/**
+ * Get the tristimulus values of monochromatic light with a radiant power of 1
+ *
+ * @param {number}              wavelength  380 to 780 nm
+ * @param {StandardObserver}    observer    Defaults to CIE1931
+ */
+export function wavelengthToXyz(wavelength: number, observer: StandardObserver = 'CIE1931'): XYZ {
+	if (!(wavelength >= START && wavelength <= END)) {
+		throw new Error('Wavelength must be between ' + START + ' and ' + END + ' nm')
+	}
+	
+	const table = OBSERVERS[observer],
+		position = (wavelength - START) / STEP,
+		lower = Math.floor(position),
+		upper = Math.min(lower + 1, table.length - 1),
+		t = position - lower
+	
+	const [x, y, z] = table[lower].map((value, i) => value + (table[upper][i] - value) * t)
+	
+	return { x, y, z }
+}
+
+/**
+ * Get the white point of an illuminant for an observer, with a luminance of 1
+ */
+export function illuminantWhitePoint(illuminant: Illuminant, observer: StandardObserver = 'CIE1931'): XYZ {
+	const white = integrate(ILLUMINANTS[illuminant], OBSERVERS[observer])
+	
+	return scale(white, 1 / white.y)
+}
+
+/**
+ * Convert the reflectance spectrum of a surface to CIE XYZ relative to the illuminant's white point
+ * A perfect white reflector has a luminance of 1. Outside of the measured range,
+ * the closest measured value is used.
+ *
+ * @param {Spectrum}            spectrum    Reflectance from 0 to 1
+ * @param {Illuminant}          illuminant  Defaults to D65
+ * @param {StandardObserver}    observer    Defaults to CIE1931
+ */
+export function reflectanceToXyz(spectrum: Spectrum, illuminant: Illuminant = 'D65', observer: StandardObserver = 'CIE1931'): XYZ {
+	const reflectance = resample(spectrum, true),
+		power = ILLUMINANTS[illuminant],
+		table = OBSERVERS[observer]
+	
+	return scale(integrate(power.map((value, i) => value * reflectance[i]), table), 1 / integrate(power, table).y)
+}
+
+/**
+ * Convert the emission spectrum of a light source to CIE XYZ
+ * The result is in the unit of the spectrum times nm, there is no emission outside of the measured range.
+ *
+ * @param {Spectrum}            spectrum    Spectral power
+ * @param {StandardObserver}    observer    Defaults to CIE1931
+ */
+export function emissionToXyz(spectrum: Spectrum, observer: StandardObserver = 'CIE1931'): XYZ {
+	return scale(integrate(resample(spectrum, false), OBSERVERS[observer]), STEP)
+}
+
+/**
+ * Sum the products of a spectral power distribution on the table's wavelengths and the color matching functions
+ */
+function integrate(power: number[], table: number[][]): XYZ {
+	let x = 0,
+		y = 0,
+		z = 0
+	
+	power.forEach((value, i) => {
+		x += value * table[i][0]
+		y += value * table[i][1]
+		z += value * table[i][2]
+	})
+	
+	return { x, y, z }
+}
+
+function scale(xyz: XYZ, factor: number): XYZ {
+	return { x: xyz.x * factor, y: xyz.y * factor, z: xyz.z * factor }
+}
+
+/**
+ * Linearly interpolate a spectrum onto the wavelengths of the tables
+ *
+ * @param {Spectrum}    spectrum
+ * @param {boolean}     extend      Use the closest sample outside of the measured range instead of 0
+ */
+function resample(spectrum: Spectrum, extend: boolean): number[] {
+	if (spectrum.length == 0) {
+		throw new Error('At least one sample is required')
+	}
+	
+	const samples = spectrum.slice().sort((a, b) => a[0] - b[0]),
+		first = samples[0],
+		last = samples[samples.length - 1]
+	
+	return Array.from({ length: (END - START) / STEP + 1 }, (_, i) => {
+		const wavelength = START + i * STEP
+		
+		if (wavelength < first[0] || wavelength > last[0]) {
+			return extend ? (wavelength < first[0] ? first[1] : last[1]) : 0
+		}
+		
+		const index = samples.findIndex(sample => sample[0] >= wavelength),
+			[upperWavelength, upperValue] = samples[index]
+		
+		if (upperWavelength == wavelength || index == 0) {
+			return upperValue
+		}
+		
+		const [lowerWavelength, lowerValue] = samples[index - 1]
+		
+		return lowerValue + (upperValue - lowerValue) * (wavelength - lowerWavelength) / (upperWavelength - lowerWavelength)
+	})
+}
@@ -0,0 +1,190 @@
+import { Spectrum, emissionToXyz } from './spectral'
+
+/**
+ * The locus a color temperature is placed on
+ *  - planckian: the color of a black body radiator, like incandescent light (1000K to 15000K)
+ *  - daylight: the CIE daylight locus, like the D illuminants (4000K to 25000K)
+ */
+export type KelvinLocus = 'planckian' | 'daylight'
+
+/**
+ * A correlated color temperature
+ */
+export interface ColorTemperature {
+	/**
+	 * Temperature of the closest point on the Planckian locus
+	 */
+	kelvin: number
+	
+	/**
+	 * Signed distance to the Planckian locus in CIE 1960 uv, positive above (greenish) and negative below (pinkish)
+	 * Correlated color temperatures are only meaningful for roughly |duv| < 0.05.
+	 */
+	duv: number
+}
+
+const MIN_KELVIN = 1000
+const MAX_KELVIN = 15000
+const MIN_DAYLIGHT_KELVIN = 4000
+const MAX_DAYLIGHT_KELVIN = 25000
+
+// Second radiation constant in nm K
+const C2 = 1.4388e7
+
+// Ohno's table has temperatures 1% apart, every cascade step narrows the search to the neighbours of the closest one
+const TABLE_STEP = 1.01
+const CASCADE_STEPS = 4
+const CASCADE_SIZE = 10
+
+// Below this distance to the locus the triangular solution is more accurate than the parabolic one
+const TRIANGULAR_DUV = 0.002
+
+interface LocusPoint {
+	kelvin: number
+	u: number
+	v: number
+}
+
+let planckianTable: LocusPoint[] | undefined
+
+/**
+ * Get the CIE 1931 xy chromaticity of a color temperature, temperatures outside of the locus are clamped
+ *
+ * @param {number}          kelvin
+ * @param {KelvinLocus}     locus   Defaults to planckian
+ */
+export function kelvinToChromaticity(kelvin: number, locus: KelvinLocus = 'planckian'): [number, number] {
+	return locus == 'daylight' ? daylightChromaticity(kelvin) : uvToXy(...planckianUv(kelvin))
+}
+
+/**
+ * Get the correlated color temperature of a CIE 1931 xy chromaticity with Ohno's method (2013)
+ * The closest point of a table of the Planckian locus in CIE 1960 uv is refined with cascaded tables, then
+ * interpolated with the triangular solution close to the locus and the parabolic solution further away.
+ * Temperatures outside of the locus are clamped.
+ */
+export function chromaticityToTemperature(x: number, y: number): ColorTemperature {
+	const [u, v] = xyToUv(x, y),
+		distanceTo = (point: LocusPoint) => Math.hypot(u - point.u, v - point.v)
+	
+	let table = planckianTable ??= locusTable(MIN_KELVIN, MAX_KELVIN, Math.ceil(Math.log(MAX_KELVIN / MIN_KELVIN) / Math.log(TABLE_STEP))),
+		index = closestIndex(table, distanceTo)
+	
+	for (let i = 0; i < CASCADE_STEPS; i++) {
+		table = locusTable(table[index - 1].kelvin, table[index + 1].kelvin, CASCADE_SIZE)
+		index = closestIndex(table, distanceTo)
+	}
+	
+	const [previous, current, next] = [table[index - 1], table[index], table[index + 1]],
+		[d0, d1, d2] = [distanceTo(previous), distanceTo(current), distanceTo(next)]
+	
+	// Triangular solution, the color is projected on the line between the neighbours
+	const length = Math.hypot(next.u - previous.u, next.v - previous.v),
+		projection = (d0 * d0 - d2 * d2 + length * length) / (2 * length),
+		triangular = previous.kelvin + (next.kelvin - previous.kelvin) * projection / length,
+		triangularDuv = Math.sqrt(Math.max(0, d0 * d0 - projection * projection)) * Math.sign(v - (previous.v + (next.v - previous.v) * projection / length))
+	
+	if (Math.abs(triangularDuv) < TRIANGULAR_DUV) {
+		return clampTemperature(triangular, triangularDuv, u, v)
+	}
+	
+	// Parabolic solution, a parabola through the three distances
+	const [t0, t1, t2] = [previous.kelvin, current.kelvin, next.kelvin],
+		denominator = (t2 - t1) * (t0 - t2) * (t1 - t0),
+		a = (t0 * (d2 - d1) + t1 * (d0 - d2) + t2 * (d1 - d0)) / denominator,
+		b = -(t0 * t0 * (d2 - d1) + t1 * t1 * (d0 - d2) + t2 * t2 * (d1 - d0)) / denominator,
+		c = -(d0 * (t2 - t1) * t1 * t2 + d1 * (t0 - t2) * t0 * t2 + d2 * (t1 - t0) * t0 * t1) / denominator,
+		kelvin = -b / (2 * a)
+	
+	return clampTemperature(kelvin, Math.sign(v - planckianUv(kelvin)[1]) * (a * kelvin * kelvin + b * kelvin + c), u, v)
+}
+
+/**
+ * Colors beyond the ends of the locus get the temperature and distance of the closest end
+ */
+function clampTemperature(kelvin: number, duv: number, u: number, v: number): ColorTemperature {
+	if (kelvin >= MIN_KELVIN && kelvin <= MAX_KELVIN) {
+		return { kelvin, duv }
+	}
+	
+	const end = kelvin < MIN_KELVIN ? MIN_KELVIN : MAX_KELVIN,
+		[locusU, locusV] = planckianUv(end)
+	
+	return { kelvin: end, duv: Math.sign(v - locusV) * Math.hypot(u - locusU, v - locusV) }
+}
+
+/**
+ * Points on the Planckian locus from one temperature to another, each the same ratio hotter than the previous one
+ */
+function locusTable(from: number, to: number, steps: number): LocusPoint[] {
+	return Array.from({ length: steps + 1 }, (_, i) => {
+		const kelvin = from * (to / from) ** (i / steps),
+			[u, v] = planckianUv(kelvin)
+		
+		return { kelvin, u, v }
+	})
+}
+
+/**
+ * Index of the table point closest to the color, the first and last points are left out as they have only one neighbour
+ */
+function closestIndex(table: LocusPoint[], distanceTo: (point: LocusPoint) => number): number {
+	let index = 1
+	
+	for (let i = 2; i < table.length - 1; i++) {
+		if (distanceTo(table[i]) < distanceTo(table[index])) {
+			index = i
+		}
+	}
+	
+	return index
+}
+
+/**
+ * The Planckian locus in CIE 1960 uv, from Planck's law and the CIE 1931 standard observer
+ */
+function planckianUv(kelvin: number): [number, number] {
+	const t = Math.max(MIN_KELVIN, Math.min(MAX_KELVIN, kelvin)),
+		spectrum: Spectrum = Array.from({ length: 81 }, (_, i) => {
+			const wavelength = 380 + i * 5
+			
+			return [wavelength, 1 / (wavelength ** 5 * Math.expm1(C2 / (wavelength * t)))]
+		}),
+		{ x, y, z } = emissionToXyz(spectrum),
+		denominator = x + 15 * y + 3 * z
+	
+	return [4 * x / denominator, 6 * y / denominator]
+}
+
+/**
+ * The CIE daylight locus as used for the D illuminants
+ */
+function daylightChromaticity(kelvin: number): [number, number] {
+	const t = Math.max(MIN_DAYLIGHT_KELVIN, Math.min(MAX_DAYLIGHT_KELVIN, kelvin)),
+		t2 = t * t,
+		t3 = t2 * t
+	
+	const x = t <= 7000
+		? -4.6070e9 / t3 + 2.9678e6 / t2 + 0.09911e3 / t + 0.244063
+		: -2.0064e9 / t3 + 1.9018e6 / t2 + 0.24748e3 / t + 0.237040
+	
+	return [x, -3 * x * x + 2.87 * x - 0.275]
+}
+
+/**
+ * Convert CIE 1931 xy to CIE 1960 uv
+ */
+function xyToUv(x: number, y: number): [number, number] {
+	const denominator = -2 * x + 12 * y + 3
+	
+	return [4 * x / denominator, 6 * y / denominator]
+}
+
+/**
+ * Convert CIE 1960 uv to CIE 1931 xy
+ */
+function uvToXy(u: number, v: number): [number, number] {
+	const denominator = 2 * u - 8 * v + 4
+	
+	return [3 * u / denominator, 2 * v / denominator]
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { Color, apcaMinFontSizes } from '../src'
+
+describe('apcaContrast', () => {
+	it('should match the APCA reference implementation', () => {
+		const examples = [
+			['#888888', '#ffffff', 63.0565],
+			['#ffffff', '#888888', -68.5415],
+			['#000000', '#ffffff', 106.0407],
+			['#ffffff', '#000000', -107.8847],
+			['#1177aa', '#ffffff', 73.7655],
+		] as const
+		
+		for (const [text, background, expected] of examples) {
+			const lc = Color.apcaContrast(Color.fromHex(text), Color.fromHex(background))
+			expect(lc, text + ' on ' + background).toBeCloseTo(expected, 3)
+		}
+	})
+	
+	it('should be polarity-aware', () => {
+		const text = Color.fromHex('#888'),
+			background = Color.WHITE
+		
+		expect(text.apcaContrastTo(background)).toBeGreaterThan(0)
+		expect(background.apcaContrastTo(text)).toBeLessThan(0)
+		expect(Math.abs(background.apcaContrastTo(text))).not.toBeCloseTo(text.apcaContrastTo(background), 1)
+	})
+	
+	it('should return 0 for very low contrast', () => {
+		expect(Color.apcaContrast(Color.fromHex('#1177aa'), Color.fromHex('#1277aa'))).toEqual(0)
+		expect(Color.apcaContrast(Color.fromHex('#777'), Color.fromHex('#7a7a7a'))).toEqual(0)
+	})
+})
+
+describe('apcaMinFontSizes', () => {
+	it('should look up minimum font sizes per weight', () => {
+		expect(apcaMinFontSizes(75)).toEqual({
+			100: 60, 200: 42, 300: 24, 400: 18, 500: 16, 600: 15, 700: 14, 800: 16, 900: 18
+		})
+		expect(apcaMinFontSizes(-63)[400]).toEqual(24)
+		expect(apcaMinFontSizes(106)[700]).toEqual(12)
+		
+		// Too little contrast for any text
+		expect(apcaMinFontSizes(29)[900]).toBeNull()
+		expect(apcaMinFontSizes(32)[100]).toBeNull()
+		expect(apcaMinFontSizes(32)[400]).toEqual(108)
+	})
+	
+	it('should recommend a font size for a color on a background', () => {
+		const text = Color.fromHex('#1177aa')
+		
+		expect(text.apcaMinFontSize(Color.WHITE)).toEqual(19.5)
+		expect(text.apcaMinFontSize(Color.WHITE, 700)).toEqual(14.5)
+		expect(text.apcaMinFontSize(Color.fromHex('#1277aa'))).toBeNull()
+	})
+})
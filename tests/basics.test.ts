@@ -26,6 +26,13 @@ describe('Basics', () => {
 		expect(color.cssHex).toEqual(hex)
 	})
 	
+	it('should create a color from hex with alpha', () => {
+		expect(Color.fromHex('#17a8').alpha).toEqual(0x88 / 255)
+		expect(Color.fromHex('#1177aa80').alpha).toEqual(0x80 / 255)
+		expect(Color.fromHex('#1177aa80', 0.5).alpha).toEqual(0.5)
+		expect(Color.fromHex('#1177aa').alpha).toEqual(1)
+	})
+	
 	it('should fail to create a color from an invalid hex', () => {
 		const hex = '##1'
 		
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+describe('blend', () => {
+	const backdrop = Color.fromHex('#ff8040'),
+		source = Color.fromHex('#4080c0'),
+		black = Color.fromHex('#000000'),
+		white = Color.fromHex('#ffffff'),
+		gray = Color.fromHex('#808080'),
+		red = Color.fromHex('#ff0000')
+	
+	it('should blend with separable modes', () => {
+		expect(Color.blend(backdrop, source).hex).toBe('4080c0')
+		expect(Color.blend(backdrop, source, 'normal').hex).toBe('4080c0')
+		expect(Color.blend(backdrop, source, 'multiply').hex).toBe('404030')
+		expect(Color.blend(backdrop, source, 'screen').hex).toBe('ffc0d0')
+		expect(Color.blend(backdrop, source, 'darken').hex).toBe('408040')
+		expect(Color.blend(backdrop, source, 'lighten').hex).toBe('ff80c0')
+		expect(Color.blend(backdrop, source, 'difference').hex).toBe('bf0080')
+		expect(Color.blend(backdrop, white, 'exclusion').hex).toBe('007fbf')
+	})
+	
+	it('should blend with the light modes', () => {
+		expect(Color.blend(black, source, 'overlay').hex).toBe('000000')
+		expect(Color.blend(white, source, 'overlay').hex).toBe('ffffff')
+		expect(Color.blend(backdrop, black, 'hard-light').hex).toBe('000000')
+		expect(Color.blend(backdrop, white, 'hard-light').hex).toBe('ffffff')
+		expect(Color.blend(source, backdrop, 'overlay').hex).toBe(Color.blend(backdrop, source, 'hard-light').hex)
+		expect(Color.blend(gray, black, 'soft-light').hex).toBe('404040')
+		expect(Color.blend(gray, white, 'soft-light').hex).toBe('b5b5b5')
+		expect(Color.blend(gray, gray, 'color-dodge').hex).toBe('ffffff')
+		expect(Color.blend(black, white, 'color-dodge').hex).toBe('000000')
+		expect(Color.blend(gray, gray, 'color-burn').hex).toBe('020202')
+		expect(Color.blend(white, black, 'color-burn').hex).toBe('ffffff')
+	})
+	
+	it('should blend with non-separable modes', () => {
+		expect(Color.blend(gray, red, 'hue').hex).toBe('808080')
+		expect(Color.blend(gray, red, 'color').hex).toBe('ff4a4a')
+		expect(Color.blend(red, gray, 'luminosity').hex).toBe('ff4a4a')
+		expect(Color.blend(red, white, 'luminosity').hex).toBe('ffffff')
+		
+		const desaturated = Color.blend(red, gray, 'saturation').rgb
+		
+		expect(desaturated.r).toBe(desaturated.g)
+		expect(desaturated.g).toBe(desaturated.b)
+	})
+	
+	it('should respect alpha', () => {
+		const halfRed = Color.fromRGB({ r: 255, g: 0, b: 0 }, 0.5),
+			transparent = Color.fromName('transparent')!
+		
+		expect(Color.blend(white, halfRed, 'multiply').hex).toBe('ff8080')
+		expect(Color.blend(transparent, source, 'multiply').hex).toBe('4080c0')
+		expect(Color.blend(transparent, halfRed, 'multiply').alpha).toBe(0.5)
+		expect(Color.blend(transparent, transparent, 'multiply').alpha).toBe(0)
+	})
+})
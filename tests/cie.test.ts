@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { Color, Lab, LCh, XYZ } from '../src'
+
+const examples: any[] = [
+	{
+		hex: 'ff0000',
+		xyz: { x: 0.412391, y: 0.212639, z: 0.019331 },
+		xyzD50: { x: 0.436066, y: 0.222493, z: 0.013924 },
+		lab: { l: 54.2905, a: 80.8049, b: 69.8910 },
+		labD65: { l: 53.2371, a: 80.0901, b: 67.2033 },
+		lch: { l: 54.2905, c: 106.8372, h: 40.8577 / 360 },
+	},
+	{
+		hex: '1177aa',
+		xyz: { x: 0.140826, y: 0.162142, z: 0.404190 },
+		xyzD50: { x: 0.131009, y: 0.157863, z: 0.305039 },
+		lab: { l: 46.6928, a: -13.1876, b: -35.4509 },
+		labD65: { l: 47.2543, a: -8.0698, b: -34.6688 },
+		lch: { l: 46.6928, c: 37.8243, h: 249.5950 / 360 },
+	},
+	{
+		hex: 'ffffff',
+		xyz: { x: 0.950456, y: 1, z: 1.089058 },
+		xyzD50: { x: 0.964296, y: 1, z: 0.825105 },
+		lab: { l: 100, a: 0, b: 0 },
+		labD65: { l: 100, a: 0, b: 0 },
+		lch: { l: 100, c: 0, h: 0 },
+	}
+]
+
+const expectClose = (actual: object, expected: object, message: string, digits: number = 3) => {
+	for (const key in expected) {
+		expect(actual[key], message + ' ' + key).toBeCloseTo(expected[key], digits)
+	}
+}
+
+describe('rgb->xyz', () => {
+	it('should convert RGB to XYZ relative to D65 and D50', () => {
+		for (const example of examples) {
+			const color = Color.fromHex(example.hex)
+			
+			expectClose(color.xyz, example.xyz, example.hex, 5)
+			expectClose(color.xyzD50, example.xyzD50, example.hex, 5)
+			expectClose(color.toXYZ('D50'), example.xyzD50, example.hex, 5)
+		}
+	})
+})
+
+describe('rgb->lab', () => {
+	it('should convert RGB to Lab and LCh relative to D50', () => {
+		for (const example of examples) {
+			const color = Color.fromHex(example.hex)
+			
+			expectClose(color.lab, example.lab, example.hex)
+			expectClose(color.lch, example.lch, example.hex)
+		}
+	})
+	
+	it('should convert RGB to Lab relative to D65', () => {
+		for (const example of examples) {
+			expectClose(Color.fromHex(example.hex).toLab('D65'), example.labD65, example.hex)
+		}
+	})
+})
+
+describe('cie->rgb', () => {
+	it('should convert XYZ, Lab and LCh to RGB', () => {
+		for (const example of examples) {
+			expect(Color.fromXYZ(example.xyz).hex, example.hex).toEqual(example.hex)
+			expect(Color.fromXYZ(example.xyzD50, 1, 'D50').hex, example.hex).toEqual(example.hex)
+			expect(Color.fromLab(example.lab).hex, example.hex).toEqual(example.hex)
+			expect(Color.fromLab(example.labD65, 1, 'D65').hex, example.hex).toEqual(example.hex)
+			expect(Color.fromLCh(example.lch).hex, example.hex).toEqual(example.hex)
+		}
+	})
+	
+	it('should convert very dark Lab values linearly', () => {
+		const lab: Lab = { l: 2, a: 1, b: -1 }
+		expectClose(Color.xyzToLab(Color.labToXyz(lab)), lab, 'dark', 10)
+	})
+})
+
+describe('cie', () => {
+	it('should keep the values it was created with', () => {
+		const lab: Lab = { l: 51.2345678, a: 12.3456789, b: -23.4567891 }
+		const lch: LCh = { l: 51.2345678, c: 12.3456789, h: 0.1234567 }
+		const xyz: XYZ = { x: 0.2345678, y: 0.3456789, z: 0.4567891 }
+		
+		expect(Color.fromLab(lab, 0.5).lab).toEqual(lab)
+		expect(Color.fromLab(lab, 0.5).alpha).toEqual(0.5)
+		expect(Color.fromLCh(lch).lch).toEqual(lch)
+		expect(Color.fromXYZ(xyz).xyz).toEqual(xyz)
+		expect(Color.fromXYZ(xyz, 1, 'D50').xyzD50).toEqual(xyz)
+	})
+	
+	it('should round-trip between white points without going through RGB', () => {
+		const lab: Lab = { l: 51.2345678, a: 12.3456789, b: -23.4567891 }
+		const d65 = Color.fromLab(lab).toLab('D65')
+		
+		expectClose(Color.fromLab(d65, 1, 'D65').lab, lab, 'lab', 5)
+	})
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { Color, CMYK } from '../src'
+
+const expectClose = (actual: object, expected: object, message: string) => {
+	for (const key in expected) {
+		expect(actual[key], message + ' ' + key).toBeCloseTo(expected[key], 10)
+	}
+}
+
+describe('rgb->cmyk', () => {
+	it('should convert RGB to CMYK with naive black generation', () => {
+		const examples = {
+			'ff0000': { c: 0, m: 1, y: 1, k: 0 },
+			'1177aa': { c: 0.9, m: 0.3, y: 0, k: 1 / 3 },
+			'ffffff': { c: 0, m: 0, y: 0, k: 0 },
+			'000000': { c: 0, m: 0, y: 0, k: 1 },
+		}
+		
+		for (const hex in examples) {
+			expectClose(Color.fromHex(hex).cmyk, examples[hex], hex)
+		}
+	})
+	
+	it('should replace only a share of gray with gcr', () => {
+		const cmyk = Color.fromHex('#1177aa').toCMYK({ blackGeneration: 'gcr', grayReplacement: 0.5 })
+		expectClose(cmyk, { c: 0.92, m: 0.44, y: 0.2, k: 1 / 6 }, 'gcr')
+	})
+	
+	it('should only generate black in shadows with ucr', () => {
+		const light = Color.fromHex('#1177aa').toCMYK({ blackGeneration: 'ucr' })
+		expectClose(light, { c: 14 / 15, m: 8 / 15, y: 1 / 3, k: 0 }, 'ucr light')
+		
+		const dark = Color.fromHex('#201008').toCMYK({ blackGeneration: 'ucr' })
+		expect(dark.k).toBeGreaterThan(0)
+		expect(dark.k).toBeLessThan(Color.fromHex('#201008').cmyk.k)
+	})
+	
+	it('should respect the total ink limit', () => {
+		const options = { blackGeneration: 'ucr' as const, ucrThreshold: 1, inkLimit: 2.4 }
+		const cmyk = Color.fromHex('#1a0a10').toCMYK(options)
+		
+		expect(cmyk.c + cmyk.m + cmyk.y + cmyk.k).toBeCloseTo(2.4, 10)
+		expect(cmyk.k).toEqual(0)
+		
+		const limited = Color.fromHex('#000').toCMYK({ inkLimit: 0.8 })
+		expectClose(limited, { c: 0, m: 0, y: 0, k: 0.8 }, 'black')
+	})
+	
+	it('should round-trip through every black generation method', () => {
+		for (const hex of ['ff0000', '1177aa', '201008', '8dbb36', '7f7f7f']) {
+			for (const blackGeneration of ['naive', 'ucr', 'gcr'] as const) {
+				const cmyk = Color.fromHex(hex).toCMYK({ blackGeneration })
+				expect(Color.fromCMYK(cmyk).hex, hex + ' ' + blackGeneration).toEqual(hex)
+			}
+		}
+	})
+})
+
+describe('cmyk', () => {
+	it('should keep the values it was created with', () => {
+		const cmyk: CMYK = { c: 0.1234567, m: 0.2345678, y: 0.3456789, k: 0.4567891 }
+		
+		expect(Color.fromCMYK(cmyk, 0.5).cmyk).toEqual(cmyk)
+		expect(Color.fromCMYK(cmyk, 0.5).alpha).toEqual(0.5)
+	})
+})
+
+describe('cssCMYK', () => {
+	it('should return a CSS-compatible device-cmyk string', () => {
+		expect(Color.fromHex('#1177aa').cssCMYK).toBe('device-cmyk(90% 30% 0% 33.3333%)')
+		expect(Color.fromCMYK({ c: 0, m: 0.81, y: 0.81, k: 0.3 }, 0.5).cssCMYK).toBe('device-cmyk(0% 81% 81% 30% / 0.5)')
+	})
+})
+
+describe('fromString', () => {
+	it('should parse device-cmyk colors', () => {
+		const examples = {
+			'device-cmyk(90% 30% 0% 33.3333%)': '#1177aa',
+			'device-cmyk(0.9 0.3 0 0.333333)': '#1177aa',
+			'DEVICE-CMYK(0.9, 0.3, 0, 0.333333)': '#1177aa',
+			'device-cmyk(0 100% 100% 0 / 50%)': '#ff0000',
+		}
+		
+		for (let source in examples) {
+			const target = examples[source]
+			const color = Color.fromString(source)
+			
+			expect(color, source).toBeInstanceOf(Color)
+			expect(color.cssHex, source).toEqual(target)
+		}
+		
+		expect(Color.fromString('device-cmyk(0 100% 100% 0 / 50%)').alpha).toEqual(0.5)
+		expect(Color.fromString('device-cmyk(0 100% 100%)')).toBeNull()
+		expect(Color.fromString('device-cmyk(0 100% 100% 0 0.5)')).toBeNull()
+	})
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { Color, ColorType } from '../src'
+
+describe('color()', () => {
+	const color = Color.fromHex('#17a3c8')
+	
+	it('should serialize into predefined color spaces', () => {
+		expect(color.toColorString()).toBe('color(srgb 0.0902 0.6392 0.7843)')
+		expect(color.toColorString('srgb-linear')).toBe('color(srgb-linear 0.0086 0.3663 0.5776)')
+		expect(color.toColorString('display-p3')).toBe('color(display-p3 0.2976 0.6297 0.769)')
+		expect(color.toColorString('a98-rgb')).toBe('color(a98-rgb 0.3672 0.6334 0.7738)')
+		expect(color.toColorString('prophoto-rgb')).toBe('color(prophoto-rgb 0.4165 0.5465 0.7124)')
+		expect(color.toColorString('rec2020')).toBe('color(rec2020 0.3702 0.5807 0.7405)')
+		expect(color.toColorString('xyz-d50')).toBe('color(xyz-d50 0.2274 0.2995 0.4481)')
+		expect(color.toColorString('xyz-d65')).toBe('color(xyz-d65 0.2387 0.3055 0.5928)')
+		expect(color.withAlpha(0.5).toColorString('display-p3')).toBe('color(display-p3 0.2976 0.6297 0.769 / 0.5)')
+	})
+	
+	it('should create colors from predefined color spaces', () => {
+		expect(Color.fromColorFunction('display-p3', [0.2976, 0.6297, 0.769]).hex).toBe('17a3c8')
+		expect(Color.fromColorFunction('a98-rgb', [0.3672, 0.6334, 0.7738]).hex).toBe('17a3c8')
+		expect(Color.fromColorFunction('prophoto-rgb', [0.4165, 0.5465, 0.7124]).hex).toBe('17a3c8')
+		expect(Color.fromColorFunction('rec2020', [0.3702, 0.5807, 0.7405]).hex).toBe('17a3c8')
+		expect(Color.fromColorFunction('xyz-d50', [0.2274, 0.2995, 0.4481]).hex).toBe('17a3c8')
+		expect(Color.fromColorFunction('srgb', [1, 0.5, 0], 0.5).alpha).toBe(0.5)
+	})
+	
+	it('should keep precision outside of sRGB', () => {
+		expect(Color.fromColorFunction('display-p3', [1, 0, 0]).toColorString('display-p3')).toBe('color(display-p3 1 0 0)')
+		expect(Color.fromColorFunction('prophoto-rgb', [0, 1, 0]).toColorString('prophoto-rgb')).toBe('color(prophoto-rgb 0 1 0)')
+		
+		// sRGB output is clipped
+		expect(Color.fromColorFunction('display-p3', [0.2, 0.6, 0.4]).rgbString).toBe('0, 156, 97')
+		expect(Color.fromColorFunction('rec2020', [0.2, 0.6, 0.4]).rgbString).toBe('0, 171, 110')
+	})
+	
+	it('should parse color() strings', () => {
+		expect(Color.detectType('color(display-p3 1 0 0)')).toBe(ColorType.color)
+		expect(Color.fromString('color(srgb 0.0902 0.6392 0.7843)')!.hex).toBe('17a3c8')
+		expect(Color.fromString('color(display-p3 29.76% 62.97% 76.9%)')!.hex).toBe('17a3c8')
+		expect(Color.fromString('COLOR(Display-P3 0.2976 0.6297 0.769 / 50%)')!.alpha).toBe(0.5)
+		expect(Color.fromString('color(xyz 0.2387 0.3055 0.5928)')!.hex).toBe('17a3c8')
+		expect(Color.fromString('color(srgb none 0 0)')!.hex).toBe('000000')
+	})
+	
+	it('should reject invalid color() strings', () => {
+		expect(Color.fromString('color(foo 1 0 0)')).toBeNull()
+		expect(Color.fromString('color(srgb 1 0)')).toBeNull()
+		expect(Color.fromString('color(srgb, 1, 0, 0)')).toBeNull()
+		expect(Color.fromString('color(srgb 1 0 x)')).toBeNull()
+		expect(Color.fromString('color(srgb 1 0 0 0.5)')).toBeNull()
+	})
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+describe('composite', () => {
+	const red = Color.fromRGB({ r: 255, g: 0, b: 0 }, 0.5),
+		blue = Color.fromHex('#0000ff'),
+		transparentBlue = Color.fromRGB({ r: 0, g: 0, b: 255 }, 0.5)
+	
+	it('should composite over', () => {
+		const opaque = Color.composite(red, blue, 'over'),
+			transparent = Color.composite(red, transparentBlue)
+		
+		expect(opaque.rgb).toEqual({ r: 127.5, g: 0, b: 127.5 })
+		expect(opaque.alpha).toBe(1)
+		expect(transparent.rgb).toEqual({ r: 170, g: 0, b: 85 })
+		expect(transparent.alpha).toBe(0.75)
+	})
+	
+	it('should composite in and out', () => {
+		const inside = Color.composite(red, transparentBlue, 'in'),
+			outside = Color.composite(red, transparentBlue, 'out')
+		
+		expect(inside.rgb).toEqual({ r: 255, g: 0, b: 0 })
+		expect(inside.alpha).toBe(0.25)
+		expect(outside.rgb).toEqual({ r: 255, g: 0, b: 0 })
+		expect(outside.alpha).toBe(0.25)
+		expect(Color.composite(red, blue, 'out').alpha).toBe(0)
+	})
+	
+	it('should composite atop and xor', () => {
+		const atop = Color.composite(red, transparentBlue, 'atop'),
+			opaque = Color.composite(red, blue, 'xor'),
+			transparent = Color.composite(red, transparentBlue, 'xor')
+		
+		expect(atop.rgb).toEqual({ r: 127.5, g: 0, b: 127.5 })
+		expect(atop.alpha).toBe(0.5)
+		expect(opaque.rgb).toEqual({ r: 0, g: 0, b: 255 })
+		expect(opaque.alpha).toBe(0.5)
+		expect(transparent.rgb).toEqual({ r: 127.5, g: 0, b: 127.5 })
+		expect(transparent.alpha).toBe(0.5)
+	})
+	
+	it('should flatten onto a background', () => {
+		expect(red.flatten().hex).toBe('ff8080')
+		expect(red.flatten().alpha).toBe(1)
+		expect(red.flatten(blue).hex).toBe('800080')
+		expect(red.flatten(transparentBlue).hex).toBe('bf4080')
+		expect(blue.flatten(red).hex).toBe('0000ff')
+	})
+	
+	it('should flatten semi-transparent colors for contrast', () => {
+		const text = Color.fromRGB({ r: 255, g: 255, b: 255 }, 0.5),
+			black = Color.fromHex('#000000'),
+			grey = Color.fromRGB({ r: 127.5, g: 127.5, b: 127.5 })
+		
+		expect(Color.contrast(text, black)).toBe(Color.contrast(grey, black))
+		expect(text.contrastTo(black)).toBeLessThan(Color.contrast(Color.fromHex('#ffffff'), black))
+		expect(Color.apcaContrast(text, black)).toBe(Color.apcaContrast(grey, black))
+	})
+})
@@ -2,31 +2,64 @@ import { expect, describe, it } from 'vitest'
 import { Color, YUV } from '../src'
 
 describe('contrastTo', () => {
-	it('should return >=10 for black and white', () => {
+	it('should return 21 for black and white', () => {
 		const c1 = Color.BLACK
 		const c2 = Color.WHITE
-		expect(c1.contrastTo(c2)).toBeGreaterThanOrEqual(10)
+		expect(c1.contrastTo(c2)).toBeCloseTo(21, 10)
+		expect(c2.contrastTo(c1)).toBeCloseTo(21, 10)
 	})
 	
-	it('should return between 2 and 3 for #17a and white', () => {
+	it('should return between 4.5 and 5 for #17a and white', () => {
 		const c1 = Color.fromHex('#17a')
 		const c2 = Color.WHITE
 		
 		expect(c1.contrastTo(c2))
-			.toBeGreaterThanOrEqual(2)
-			.toBeLessThanOrEqual(3)
+			.toBeGreaterThanOrEqual(4.5)
+			.toBeLessThanOrEqual(5)
 	})
 	
-	it('should return between 0 and 1 for equal colors', () => {
+	it('should match known contrast ratios', () => {
+		expect(Color.contrast(Color.fromHex('#777'), Color.WHITE)).toBeCloseTo(4.478, 3)
+		expect(Color.contrast(Color.fromHex('#767676'), Color.WHITE)).toBeCloseTo(4.542, 3)
+		expect(Color.contrast(Color.fromHex('#ff0000'), Color.fromHex('#0000ff'))).toBeCloseTo(2.149, 3)
+	})
+	
+	it('should return 1 for equal colors', () => {
 		const c1 = Color.fromHex('#17a')
 		const c2 = Color.fromHex('#e0e0e0')
 		
-		expect(c1.contrastTo(c1), c1.cssHex)
-			.toBeGreaterThanOrEqual(0)
-			.toBeLessThanOrEqual(1)
+		expect(c1.contrastTo(c1), c1.cssHex).toEqual(1)
+		expect(c2.contrastTo(c2), c2.cssHex).toEqual(1)
+	})
+})
+
+describe('relativeLuminance', () => {
+	it('should return the WCAG relative luminance', () => {
+		expect(Color.BLACK.relativeLuminance).toEqual(0)
+		expect(Color.WHITE.relativeLuminance).toBeCloseTo(1, 10)
+		expect(Color.fromHex('#ff0000').relativeLuminance).toBeCloseTo(0.2126, 10)
+		expect(Color.fromHex('#808080').relativeLuminance).toBeCloseTo(0.2159, 4)
+	})
+})
+
+describe('meetsWCAG', () => {
+	it('should check the contrast against WCAG levels', () => {
+		const background = Color.WHITE
+		
+		expect(Color.fromHex('#767676').meetsWCAG(background)).toBe(true)
+		expect(Color.fromHex('#777777').meetsWCAG(background)).toBe(false)
+		expect(Color.fromHex('#777777').meetsWCAG(background, 'AA', 'large')).toBe(true)
+		expect(Color.fromHex('#767676').meetsWCAG(background, 'AAA')).toBe(false)
+		expect(Color.meetsWCAG(Color.fromHex('#595959'), background, 'AAA')).toBe(true)
+		expect(Color.meetsWCAG(Color.fromHex('#767676'), background, 'AAA', 'large')).toBe(true)
+	})
+	
+	it('should return the highest WCAG level met', () => {
+		const background = Color.WHITE
 		
-		expect(c2.contrastTo(c2), c2.cssHex)
-			.toBeGreaterThanOrEqual(0)
-			.toBeLessThanOrEqual(1)
+		expect(Color.BLACK.wcagLevel(background)).toEqual('AAA')
+		expect(Color.fromHex('#767676').wcagLevel(background)).toEqual('AA')
+		expect(Color.fromHex('#777777').wcagLevel(background)).toBeNull()
+		expect(Color.fromHex('#777777').wcagLevel(background, 'large')).toEqual('AA')
 	})
 })
@@ -87,7 +87,9 @@ describe('hsl->rgb', () => {
 	it('should convert HSL to RGB', () => {
 		for (const example of examples) {
 			const result = Color.hslToRgb(example.hsl)
-			expect(result, example.hsl).toEqual(example.rgb)
+			expect(result.r, example.hsl).toBeCloseTo(example.rgb.r, 10)
+			expect(result.g, example.hsl).toBeCloseTo(example.rgb.g, 10)
+			expect(result.b, example.hsl).toBeCloseTo(example.rgb.b, 10)
 		}
 	})
 })
@@ -96,8 +98,9 @@ describe('hsl->rgb', () => {
 describe('yuv->rgb', () => {
 	it('should convert YUV to RGB', () => {
 		for (const example of examples) {
+			// The YUV examples are rounded, so only the rounded channels match
 			const result = Color.yuvToRgb(example.yuv)
-			expect(result, example.yuv).toEqual(example.rgb)
+			expect(Color.rgbToHex(result), example.yuv).toEqual(example.hex)
 		}
 	})
 })
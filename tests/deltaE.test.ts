@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+describe('deltaE', () => {
+	it('should calculate CIEDE2000 like the reference implementation', () => {
+		// Test data by Sharma, Wu and Dalal
+		const examples = [
+			[50, 2.6772, -79.7751, 50, 0, -82.7485, 2.0425],
+			[50, 0, 0, 50, -1, 2, 2.3669],
+			[50, 2.5, 0, 73, 25, -18, 27.1492],
+			[50, 2.5, 0, 50, 3.1736, 0.5854, 1.0000],
+			[60.2574, -34.0099, 36.2677, 60.4626, -34.1751, 39.4387, 1.2644],
+			[90.8027, -2.0831, 1.4410, 91.1528, -1.6435, 0.0447, 1.4441],
+			[2.0776, 0.0795, -1.1350, 0.9033, -0.0636, -0.5514, 0.9082],
+		]
+		
+		for (const [l1, a1, b1, l2, a2, b2, expected] of examples) {
+			const c1 = Color.fromLab({ l: l1, a: a1, b: b1 }),
+				c2 = Color.fromLab({ l: l2, a: a2, b: b2 })
+			
+			expect(Color.deltaE(c1, c2), c1.toString()).toBeCloseTo(expected, 4)
+			expect(Color.deltaE(c2, c1, 'CIEDE2000'), c2.toString()).toBeCloseTo(expected, 4)
+		}
+	})
+	
+	it('should calculate CIE76', () => {
+		const c1 = Color.fromLab({ l: 50, a: 0, b: 0 }),
+			c2 = Color.fromLab({ l: 60, a: 3, b: 4 })
+		
+		expect(Color.deltaE(c1, c2, 'CIE76')).toBeCloseTo(Math.sqrt(125), 10)
+		expect(Color.deltaE(Color.fromHex('#1177aa'), Color.fromHex('#1a7fb0'), 'CIE76')).toBeCloseTo(3.4745, 4)
+	})
+	
+	it('should calculate CIE94', () => {
+		const reference = Color.fromLab({ l: 50, a: 30, b: 40 })
+		
+		expect(Color.deltaE(reference, Color.fromLab({ l: 50, a: 40, b: 30 }), 'CIE94')).toBeCloseTo(Math.sqrt(200 / 1.75 ** 2), 10)
+		expect(Color.deltaE(reference, Color.fromLab({ l: 55, a: 36, b: 48 }), 'CIE94')).toBeCloseTo(Math.sqrt(25 + (10 / 3.25) ** 2), 10)
+		expect(Color.deltaE(Color.fromLab({ l: 50, a: 0, b: 0 }), Color.fromLab({ l: 60, a: 3, b: 4 }), 'CIE94')).toBeCloseTo(Math.sqrt(125), 10)
+	})
+	
+	it('should calculate CMC l:c', () => {
+		const examples = [
+			['#1177aa', '#1a7fb0', 1.8710],
+			['#ff0000', '#00ff00', 101.7841],
+			['#336699', '#996633', 54.9995],
+		] as const
+		
+		for (const [hex1, hex2, expected] of examples) {
+			expect(Color.deltaE(Color.fromHex(hex1), Color.fromHex(hex2), 'CMC'), hex1).toBeCloseTo(expected, 3)
+		}
+		
+		const c1 = Color.fromHex('#1177aa'),
+			c2 = Color.fromHex('#1a7fb0')
+		
+		expect(Color.deltaE(c1, c2, 'CMC', { l: 1, c: 1 })).toBeGreaterThan(Color.deltaE(c1, c2, 'CMC'))
+		expect(c1.deltaETo(c2, 'CMC', { l: 1, c: 1 })).toEqual(Color.deltaE(c1, c2, 'CMC', { l: 1, c: 1 }))
+	})
+	
+	it('should calculate Delta E OK', () => {
+		const c1 = Color.fromHex('#ff0000'),
+			c2 = Color.fromHex('#00ff00')
+		
+		expect(Color.deltaEOK(c1, c2)).toBeCloseTo(0.5198, 4)
+		expect(Color.deltaE(c1, c2, 'OK')).toEqual(Color.deltaEOK(c1, c2))
+	})
+	
+	it('should return 0 for equal colors', () => {
+		const color = Color.fromHex('#1177aa')
+		
+		for (const method of ['CIE76', 'CIE94', 'CIEDE2000', 'CMC', 'OK'] as const) {
+			expect(color.deltaETo(color, method), method).toEqual(0)
+		}
+	})
+})
+
+describe('areSimilar with Delta E', () => {
+	it('should compare against a Delta E threshold', () => {
+		const c1 = Color.fromHex('#7f7f7f'),
+			c2 = Color.fromHex('#808080'),
+			c3 = Color.fromHex('#1177aa'),
+			c4 = Color.fromHex('#1a7fb0')
+		
+		expect(c1.isSimilarTo(c2, { maxDeltaE: 1 })).toBe(true)
+		expect(c3.isSimilarTo(c4, { maxDeltaE: 1 })).toBe(false)
+		expect(c3.isSimilarTo(c4, { maxDeltaE: 3.5 })).toBe(true)
+		expect(Color.areSimilar(c3, c4, { maxDeltaE: 3.4, method: 'CIE76' })).toBe(false)
+		expect(Color.areSimilar(c3, c4, { maxDeltaE: 0.02, method: 'OK' })).toBe(false)
+		expect(Color.areSimilar(c3, c4, { maxDeltaE: 0.03, method: 'OK' })).toBe(true)
+	})
+})
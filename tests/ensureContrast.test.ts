@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+describe('ensureContrast', () => {
+	it('should reach the target ratio with minimal lightness change', () => {
+		const backgrounds = ['#ffffff', '#000000', '#808080', '#ffff00', '#1177aa']
+		const colors = ['#ff0000', '#8dbb36', '#17a7df', '#777777']
+		
+		for (const backgroundHex of backgrounds) {
+			const background = Color.fromHex(backgroundHex)
+			
+			for (const hex of colors) {
+				for (const space of ['hsl', 'oklch'] as const) {
+					const original = Color.fromHex(hex),
+						adjusted = original.ensureContrast(background, 3, { space })
+					
+					if (original.contrastTo(background) >= 3) {
+						expect(adjusted).toBe(original)
+						continue
+					}
+					
+					expect(adjusted.contrastTo(background), hex + ' on ' + backgroundHex).toBeGreaterThanOrEqual(3)
+					expect(adjusted.contrastTo(background), hex + ' on ' + backgroundHex).toBeLessThan(3.3)
+				}
+			}
+		}
+	})
+	
+	it('should keep hue and alpha', () => {
+		const original = Color.fromHex('#17a7df').withAlpha(0.8),
+			darker = original.ensureContrast(Color.WHITE, 7, { space: 'hsl' }),
+			lighter = original.ensureContrast(Color.fromHex('#101010'), 7)
+		
+		expect(darker.contrastTo(Color.WHITE)).toBeGreaterThanOrEqual(7)
+		expect(darker.isDarkerThan(original)).toBe(true)
+		expect(darker.hsl.h).toBeCloseTo(original.hsl.h, 2)
+		expect(darker.alpha).toEqual(0.8)
+		expect(lighter.contrastTo(Color.fromHex('#101010'))).toBeGreaterThanOrEqual(7)
+		expect(lighter.isLighterThan(original)).toBe(true)
+		expect(lighter.oklch.h).toBeCloseTo(original.oklch.h, 1)
+		expect(lighter.alpha).toEqual(0.8)
+	})
+	
+	it('should fall back to the highest contrast if the ratio cannot be reached', () => {
+		const background = Color.fromHex('#808080'),
+			hsl = Color.fromHex('#ff0000').ensureContrast(background, 10, { space: 'hsl' }),
+			oklch = Color.fromHex('#ff0000').ensureContrast(background, 10)
+		
+		// Black has more contrast to gray than white
+		expect(hsl.cssHex).toEqual('#000000')
+		expect(hsl.contrastTo(background)).toEqual(Color.BLACK.contrastTo(background))
+		expect(oklch.oklch.l).toEqual(0)
+		expect(oklch.contrastTo(background)).toBeGreaterThan(Color.WHITE.contrastTo(background))
+		expect(oklch.contrastTo(background)).toBeLessThan(10)
+	})
+})
+
+describe('mostReadable', () => {
+	it('should return the candidate with the highest contrast', () => {
+		const candidates = ['#ffffff', '#17a', '#000000', '#ffff00'].map(hex => Color.fromHex(hex))
+		
+		expect(Color.mostReadable(Color.fromHex('#ffffee'), candidates).cssHex).toEqual('#000000')
+		expect(Color.mostReadable(Color.fromHex('#202020'), candidates).cssHex).toEqual('#ffffff')
+		expect(Color.mostReadable(Color.fromHex('#1177aa'), candidates.slice(1)).cssHex).toEqual('#ffff00')
+		expect(Color.mostReadable(Color.WHITE, [])).toBeNull()
+	})
+})
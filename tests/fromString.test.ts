@@ -20,6 +20,23 @@ describe('fromString', () => {
 		}
 	})
 	
+	it('should parse hex colors with alpha', () => {
+		const examples = {
+			'#17a8': 'rgba(17, 119, 170, 0.5333333333333333)',
+			'#1177aa80': 'rgba(17, 119, 170, 0.5019607843137255)',
+			'#1177aaff': 'rgba(17, 119, 170, 1)',
+			'1177aa00': 'rgba(17, 119, 170, 0)',
+		}
+		
+		for (let source in examples) {
+			const target = examples[source]
+			const color = Color.fromString(source)
+			
+			expect(color, source).toBeInstanceOf(Color)
+			expect(color.cssRGBA, source).toEqual(target)
+		}
+	})
+	
 	it('should parse rgb colors', () => {
 		const examples = {
 			'rgb(0, 0, 0)': '#000000',
@@ -92,6 +109,100 @@ describe('fromString', () => {
 		}
 	})
 	
+	it('should parse space-separated rgb colors', () => {
+		const examples = {
+			'rgb(17 119 170)': 'rgba(17, 119, 170, 1)',
+			'rgb(17 119 170 / 50%)': 'rgba(17, 119, 170, 0.5)',
+			'rgb(17 119 170 / .25)': 'rgba(17, 119, 170, 0.25)',
+			'rgba(17 119 170 / 0.3)': 'rgba(17, 119, 170, 0.3)',
+			'RGB(17 119 170)': 'rgba(17, 119, 170, 1)',
+			'rgb(100% 50% 0%)': 'rgba(255, 128, 0, 1)',
+			'rgb(16.6 119.2 170)': 'rgba(17, 119, 170, 1)',
+			'rgb(300 -20 170)': 'rgba(255, 0, 170, 1)',
+			'rgb(none 119 170 / none)': 'rgba(0, 119, 170, 0)',
+			'  rgb( 17   119 170 )  ': 'rgba(17, 119, 170, 1)',
+			'rgba(17, 119, 170)': 'rgba(17, 119, 170, 1)',
+			'rgb(17, 119, 170, 0.5)': 'rgba(17, 119, 170, 0.5)',
+			'rgb(17.4, 119, 170)': 'rgba(17, 119, 170, 1)',
+		}
+		
+		for (let source in examples) {
+			const target = examples[source]
+			const color = Color.fromString(source)
+			
+			expect(color, source).toBeInstanceOf(Color)
+			expect(color.cssRGBA, source).toEqual(target)
+		}
+	})
+	
+	it('should parse space-separated hsl colors', () => {
+		const examples = {
+			'hsl(204 69% 36.7%)': 'hsla(204, 69%, 36.7%, 1)',
+			'hsl(204 69% 36.7% / 20%)': 'hsla(204, 69%, 36.7%, 0.2)',
+			'hsl(204deg 69% 36.7%)': 'hsla(204, 69%, 36.7%, 1)',
+			'hsl(-156 69% 36.7%)': 'hsla(204, 69%, 36.7%, 1)',
+			'hsl(564 69% 36.7%)': 'hsla(204, 69%, 36.7%, 1)',
+			'hsl(0.5turn 100% 50%)': 'hsla(180, 100%, 50%, 1)',
+			'hsl(200grad 100% 50%)': 'hsla(180, 100%, 50%, 1)',
+			'hsl(3.14159265rad 100% 50%)': 'hsla(180, 100%, 50%, 1)',
+			'hsl(none 0% 50%)': 'hsla(0, 0%, 50%, 1)',
+			'hsl(204 69 36.7)': 'hsla(204, 69%, 36.7%, 1)',
+			'HSLA(204DEG 69% 36.7% / 0.5)': 'hsla(204, 69%, 36.7%, 0.5)',
+			'hsl(-156.5, 69%, 36.7%)': 'hsla(203.5, 69%, 36.7%, 1)',
+		}
+		
+		for (let source in examples) {
+			const target = examples[source]
+			const color = Color.fromString(source)
+			
+			expect(color, source).toBeInstanceOf(Color)
+			expect(color.cssHSLA, source).toEqual(target)
+		}
+	})
+	
+	it('should parse oklab, oklch, lab and lch colors', () => {
+		const examples = {
+			'oklch(62.7955% 0.257683 29.2339)': '#ff0000',
+			'oklch(0.627955 0.257683 29.2339deg / 0.5)': '#ff0000',
+			'oklab(62.7955% 0.224863 0.125846)': '#ff0000',
+			'oklab(0.627955 56.2158% 31.4615%)': '#ff0000',
+			'lab(54.2905% 80.8049 69.8910)': '#ff0000',
+			'lch(54.2905 106.8372 40.8577)': '#ff0000',
+			'lch(100 0 none)': '#ffffff',
+		}
+		
+		for (let source in examples) {
+			const target = examples[source]
+			const color = Color.fromString(source)
+			
+			expect(color, source).toBeInstanceOf(Color)
+			expect(color.cssHex, source).toEqual(target)
+		}
+		
+		expect(Color.fromString('oklch(62.8% 0.26 29.2 / 0.5)').alpha).toEqual(0.5)
+	})
+	
+	it('should return null for malformed functions', () => {
+		const examples: string[] = [
+			'rgb()',
+			'rgb(1 2)',
+			'rgb(1 2 3 4 5)',
+			'rgb(1 2 3 4)',
+			'hsl(10 20% 30% 0.5)',
+			'rgb(1 2 / 0.5)',
+			'rgb(1 2 3 / 0.5 / 0.5)',
+			'rgb(a b c)',
+			'rgb(1, 2, , 3)',
+			'rgb(1 2 3',
+			'hsl(10px 50% 50%)',
+			'oklch(50% 0.1)',
+		]
+		
+		for (let example of examples) {
+			expect(Color.fromString(example), example).toBeNull()
+		}
+	})
+	
 	it('should return the input if it is a Color', () => {
 		const color = Color.fromString('#ff0000')
 		expect(Color.fromString(color)).toBe(color)
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+const rgb = (color: Color) => [color.rgb.r, color.rgb.g, color.rgb.b].map(Math.round)
+
+describe('gamut', () => {
+	const green = Color.fromOKLCH({ l: 0.7, c: 0.3, h: 150 / 360 }),
+		p3Red = Color.fromColorFunction('display-p3', [1, 0, 0]),
+		rec2020Green = Color.fromColorFunction('rec2020', [0, 1, 0]),
+		lightBlue = Color.fromOKLCH({ l: 0.9, c: 0.3, h: 260 / 360 })
+	
+	it('should check gamuts', () => {
+		expect(Color.fromHex('#ff0000').inGamut()).toBe(true)
+		expect(Color.fromHex('#ff0000').inGamut('display-p3')).toBe(true)
+		expect(Color.fromHex('#ff0000').inGamut('rec2020')).toBe(true)
+		expect(p3Red.inGamut('srgb')).toBe(false)
+		expect(p3Red.inGamut('display-p3')).toBe(true)
+		expect(green.inGamut('srgb')).toBe(false)
+		expect(green.inGamut('display-p3')).toBe(false)
+		expect(green.inGamut('rec2020')).toBe(true)
+		expect(lightBlue.inGamut('rec2020')).toBe(false)
+	})
+	
+	it('should clip', () => {
+		const color = Color.fromHex('#17a3c8')
+		
+		expect(rgb(green.toGamut('srgb', { method: 'clip' }))).toEqual([0, 203, 0])
+		expect(rgb(lightBlue.toGamut('srgb', { method: 'clip' }))).toEqual([85, 210, 255])
+		expect(color.toGamut('srgb', { method: 'clip' })).toBe(color)
+	})
+	
+	it('should map with the CSS Color 4 algorithm', () => {
+		const expectClose = (actual: number[], expected: number[]) => actual.forEach((channel, i) => expect(Math.abs(channel - expected[i])).toBeLessThanOrEqual(1))
+		
+		expectClose(rgb(green.toGamut()), [0, 194, 72])
+		expectClose(rgb(p3Red.toGamut('srgb', { method: 'css4' })), [255, 11, 12])
+		expectClose(rgb(rec2020Green.toGamut()), [0, 242, 114])
+		expectClose(rgb(lightBlue.toGamut()), [195, 224, 255])
+		
+		expect(green.toGamut('display-p3').toColorString('display-p3')).toBe('color(display-p3 0 0.7814 0.2008)')
+		expect(rec2020Green.toGamut('display-p3').toColorString('display-p3')).toBe('color(display-p3 0 0.9741 0.3744)')
+		
+		// Colors in gamut are returned as is, lightness out of range maps to white and black
+		const color = Color.fromHex('#17a3c8')
+		
+		expect(color.toGamut()).toBe(color)
+		expect(p3Red.toGamut('display-p3')).toBe(p3Red)
+		expect(Color.fromOKLCH({ l: 1.2, c: 0.1, h: 0 }).toGamut().hex).toBe('ffffff')
+		expect(Color.fromOKLCH({ l: -0.1, c: 0.1, h: 0 }).toGamut().hex).toBe('000000')
+		expect(Color.fromOKLCH({ l: 0.7, c: 0.3, h: 150 / 360 }, 0.5).toGamut().alpha).toBe(0.5)
+	})
+	
+	it('should keep lightness and hue when reducing chroma', () => {
+		const mapped = green.toGamut('srgb', { method: 'chroma-reduction' })
+		
+		expect(mapped.oklch.l).toBeCloseTo(0.7, 2)
+		expect(mapped.oklch.h * 360).toBeCloseTo(150, 0)
+		expect(mapped.oklch.c).toBeLessThan(0.3)
+		expect(mapped.inGamut()).toBe(true)
+	})
+	
+	it('should clamp out of range HSL and YUV instead of wrapping', () => {
+		expect(Color.hslToRgb({ h: 0, s: 2, l: 0.5 })).toEqual({ r: 255, g: 0, b: 0 })
+		expect(Color.hslToRgb({ h: 0, s: 0, l: 1.5 })).toEqual({ r: 255, g: 255, b: 255 })
+		expect(Color.yuvToRgb({ y: 16, u: 128, v: 120 }).r).toBe(0)
+	})
+})
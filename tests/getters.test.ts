@@ -8,6 +8,23 @@ describe('cssHex', () => {
 	})
 })
 
+describe('cssHexAlpha', () => {
+	it('should return a CSS-compatible 8-digit hex string', () => {
+		expect(Color.fromHex('#17a').cssHexAlpha).toBe('#1177aaff')
+		expect(Color.fromHex('#17a').withAlpha(0.5).cssHexAlpha).toBe('#1177aa80')
+		expect(Color.fromHex('#17a').withAlpha(0).cssHexAlpha).toBe('#1177aa00')
+	})
+	
+	it('should round-trip 8-digit hex strings', () => {
+		for (const hex of ['#1177aa80', '#1177aa00', '#ffffff01', '#000000fe']) {
+			const color = Color.fromHex(hex)
+			
+			expect(color.cssHex, hex).toBe(hex.substring(0, 7))
+			expect(color.cssHexAlpha, hex).toBe(hex)
+		}
+	})
+})
+
 describe('cssHSLA', () => {
 	it('should return a CSS-compatible hsla string', () => {
 		const color = Color.fromHex('#17a')
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+const hues = (colors: Color[]) => colors.map(color => Math.round(color.hsl.h * 360))
+
+describe('harmonies', () => {
+	const color = Color.fromHSL({ h: 30 / 360, s: 0.8, l: 0.5 })
+	
+	it('should rotate the hue in HSL', () => {
+		const complementary = color.complementary()
+		
+		expect(complementary[0]).toBe(color)
+		expect(hues(complementary)).toEqual([30, 210])
+		expect(hues(color.splitComplementary())).toEqual([30, 180, 240])
+		expect(hues(color.triadic())).toEqual([30, 150, 270])
+		expect(hues(color.tetradic())).toEqual([30, 90, 210, 270])
+		expect(hues(color.square())).toEqual([30, 120, 210, 300])
+	})
+	
+	it('should generate analogous colors', () => {
+		expect(hues(color.analogous())).toEqual([0, 30, 60])
+		expect(hues(color.analogous(5, 1 / 36))).toEqual([10, 20, 30, 40, 50])
+		expect(hues(color.analogous(4, 1 / 12))).toEqual([0, 30, 60, 90])
+		expect(color.analogous(1)).toEqual([color])
+	})
+	
+	it('should keep saturation, lightness and alpha in HSL', () => {
+		for (const harmony of color.withAlpha(0.5).square()) {
+			expect(harmony.hsl.s).toBeCloseTo(0.8, 2)
+			expect(harmony.hsl.l).toBeCloseTo(0.5, 2)
+			expect(harmony.alpha).toEqual(0.5)
+		}
+	})
+	
+	it('should rotate in OKLCH and LCh', () => {
+		const original = Color.fromHex('#1177aa')
+		
+		for (const space of ['oklch', 'lch'] as const) {
+			const [self, complement] = original.complementary(space),
+				get = (c: Color) => space == 'oklch' ? c.oklch : c.lch
+			
+			expect(self).toBe(original)
+			expect(get(complement).h).toBeCloseTo((get(original).h + 0.5) % 1, 5)
+			expect(get(complement).l).toEqual(get(original).l)
+		}
+		
+		// HSL keeps HSL lightness, OKLCH keeps perceived lightness
+		const hsl = original.triadic('hsl'),
+			oklch = original.triadic('oklch')
+		
+		const spread = (colors: Color[]) => Math.max(...colors.map(c => c.oklch.l)) - Math.min(...colors.map(c => c.oklch.l))
+		expect(spread(oklch)).toBeLessThan(spread(hsl))
+	})
+})
+
+describe('monochromatic', () => {
+	it('should generate colors of the same hue from dark to light', () => {
+		const color = Color.fromHSL({ h: 0.5, s: 0.5, l: 0.5 }),
+			colors = color.monochromatic(5)
+		
+		expect(colors.length).toEqual(5)
+		expect(colors[2]).toBe(color)
+		expect(colors.map(c => Math.round(c.hsl.l * 6))).toEqual([1, 2, 3, 4, 5])
+		
+		for (const c of colors) {
+			expect(Math.round(c.hsl.h * 360)).toEqual(180)
+		}
+		
+		// The color takes the step closest to its lightness
+		const light = Color.fromHSL({ h: 0.5, s: 0.5, l: 0.95 })
+		
+		expect(light.monochromatic(3)[2]).toBe(light)
+		expect(Color.BLACK.monochromatic(3)[0]).toBe(Color.BLACK)
+	})
+	
+	it('should stay sorted by lightness if the color is between steps', () => {
+		for (const l of [0.3, 0.42, 0.58, 0.99]) {
+			const color = Color.fromHSL({ h: 0.5, s: 0.5, l }),
+				colors = color.monochromatic(5)
+			
+			expect(colors).toContain(color)
+			
+			for (let i = 1; i < colors.length; i++) {
+				expect(colors[i].hsl.l, String(l)).toBeGreaterThan(colors[i - 1].hsl.l)
+			}
+		}
+	})
+	
+	it('should vary perceptual lightness in OKLCH and LCh', () => {
+		const color = Color.fromHex('#1177aa')
+		
+		const oklch = color.monochromatic(4, 'oklch')
+		expect(oklch[2]).toBe(color)
+		expect(oklch.map(c => Math.round(c.oklch.l * 100))).toEqual([20, 40, 54, 80])
+		
+		const lch = color.monochromatic(4, 'lch')
+		expect(lch.filter(c => c !== color).map(c => Math.round(c.lch.l))).toEqual([20, 60, 80])
+	})
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { Color, HSV, HWB } from '../src'
+
+const examples: any[] = [
+	{
+		hex: 'ff0000',
+		hsv: { h: 0, s: 1, v: 1 },
+		hwb: { h: 0, w: 0, b: 0 },
+	},
+	{
+		hex: '8dbb36',
+		hsv: { h: 0.22431077694235588, s: 1 - 54 / 187, v: 187 / 255 },
+		hwb: { h: 0.22431077694235588, w: 54 / 255, b: 68 / 255 },
+	},
+	{
+		hex: '808080',
+		hsv: { h: 0, s: 0, v: 128 / 255 },
+		hwb: { h: 0, w: 128 / 255, b: 127 / 255 },
+	},
+	{
+		hex: '000000',
+		hsv: { h: 0, s: 0, v: 0 },
+		hwb: { h: 0, w: 0, b: 1 },
+	}
+]
+
+const expectClose = (actual: object, expected: object, message: string) => {
+	for (const key in expected) {
+		expect(actual[key], message + ' ' + key).toBeCloseTo(expected[key], 10)
+	}
+}
+
+describe('rgb->hsv', () => {
+	it('should convert RGB to HSV and HWB', () => {
+		for (const example of examples) {
+			const color = Color.fromHex(example.hex)
+			
+			expectClose(color.hsv, example.hsv, example.hex)
+			expectClose(color.hwb, example.hwb, example.hex)
+		}
+	})
+})
+
+describe('hsv->rgb', () => {
+	it('should convert HSV and HWB to RGB', () => {
+		for (const example of examples) {
+			expect(Color.fromHSV(example.hsv).hex, example.hex).toEqual(example.hex)
+			expect(Color.fromHWB(example.hwb).hex, example.hex).toEqual(example.hex)
+		}
+	})
+	
+	it('should normalize whiteness and blackness above 1 into a gray', () => {
+		expect(Color.fromHWB({ h: 0.5, w: 0.6, b: 0.6 }).hex).toEqual('808080')
+		expect(Color.fromHWB({ h: 0.5, w: 1, b: 0 }).hex).toEqual('ffffff')
+	})
+})
+
+describe('hsv', () => {
+	it('should keep the values it was created with', () => {
+		const hsv: HSV = { h: 0.1234567, s: 0.7654321, v: 0.4567891 }
+		const hwb: HWB = { h: 0.1234567, w: 0.2345678, b: 0.3456789 }
+		
+		expect(Color.fromHSV(hsv, 0.5).hsv).toEqual(hsv)
+		expect(Color.fromHSV(hsv, 0.5).alpha).toEqual(0.5)
+		expect(Color.fromHWB(hwb).hwb).toEqual(hwb)
+	})
+	
+	it('should convert between HSV, HWB and HSL without rounding', () => {
+		const hsv: HSV = { h: 0.1234567, s: 0.7654321, v: 0.4567891 }
+		const color = Color.fromHWB(Color.fromHSV(hsv).hwb)
+		
+		expectClose(color.hsv, hsv, 'hsv')
+		expectClose(Color.fromHSL(color.hsl).hsv, hsv, 'hsl')
+	})
+})
+
+describe('cssHWB', () => {
+	it('should return a CSS-compatible hwb string', () => {
+		expect(Color.fromHex('#17a').cssHWB).toBe('hwb(200 6.6667% 33.3333%)')
+		expect(Color.fromHWB({ h: 0.5, w: 0.1, b: 0.2 }, 0.5).cssHWB).toBe('hwb(180 10% 20% / 0.5)')
+	})
+})
+
+describe('fromString', () => {
+	it('should parse hwb colors', () => {
+		const examples = {
+			'hwb(200 6.6667% 33.3333%)': '#1177aa',
+			'hwb(200deg 6.6667% 33.3333% / 0.5)': '#1177aa',
+			'HWB(0.5556turn 6.6667 33.3333)': '#1177aa',
+			'hwb(none 100% 0%)': '#ffffff',
+		}
+		
+		for (let source in examples) {
+			const target = examples[source]
+			const color = Color.fromString(source)
+			
+			expect(color, source).toBeInstanceOf(Color)
+			expect(color.cssHex, source).toEqual(target)
+		}
+		
+		expect(Color.fromString('hwb(200 6.6667% 33.3333% / 0.5)').alpha).toEqual(0.5)
+	})
+})
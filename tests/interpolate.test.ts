@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+describe('interpolate', () => {
+	const red = Color.fromHex('#ff0000'),
+		blue = Color.fromHex('#0000ff'),
+		white = Color.fromHex('#ffffff')
+	
+	it('should interpolate in rectangular spaces', () => {
+		expect(Color.interpolate(red, blue, 0.3, { space: 'srgb' }).hex).toBe('b3004d')
+		expect(Color.interpolate(red, blue, 0.3, { space: 'srgb-linear' }).hex).toBe('da0095')
+		expect(Color.interpolate(red, blue, 0.3, { space: 'oklab' }).hex).toBe('ba4d79')
+		expect(Color.interpolate(white, blue, 0.3, { space: 'lab' }).hex).toBe('d2b8ff')
+		expect(Color.interpolate(red, blue, 0.3).hex).toBe('ba4d79')
+	})
+	
+	it('should interpolate hues', () => {
+		expect(Color.interpolate(red, blue, 0.3, { space: 'hsl' }).hex).toBe('ff0099')
+		expect(Color.interpolate(red, blue, 0.3, { space: 'hsl', hue: 'longer' }).hex).toBe('ccff00')
+		expect(Color.interpolate(red, blue, 0.3, { space: 'hsl', hue: 'increasing' }).hex).toBe('ccff00')
+		expect(Color.interpolate(red, blue, 0.3, { space: 'hsl', hue: 'decreasing' }).hex).toBe('ff0099')
+		expect(Color.interpolate(blue, red, 0.5, { space: 'hsl', hue: 'increasing' }).hsl.h * 360).toBeCloseTo(300, 0)
+		expect(Color.interpolate(blue, red, 0.5, { space: 'hsl', hue: 'decreasing' }).hsl.h * 360).toBeCloseTo(120, 0)
+	})
+	
+	it('should use the hue of the other color for achromatic colors', () => {
+		expect(Color.interpolate(white, blue, 0.3, { space: 'hsl' }).hex).toBe('cdcde4')
+		expect(Color.interpolate(white, blue, 0.3, { space: 'hsl', hue: 'longer' }).hex).toBe('e4cdd2')
+		expect(Color.interpolate(white, blue, 0.3, { space: 'oklch' }).hex).toBe('aac9ff')
+	})
+	
+	it('should premultiply alpha', () => {
+		const transparentRed = Color.fromRGB({ r: 255, g: 0, b: 0 }, 0.2),
+			transparentBlue = Color.fromRGB({ r: 0, g: 0, b: 255 }, 0.8)
+		
+		const srgb = Color.interpolate(transparentRed, transparentBlue, 0.3, { space: 'srgb' })
+		
+		expect(srgb.hex).toBe('5e00a1')
+		expect(srgb.alpha).toBeCloseTo(0.38)
+		expect(Color.interpolate(transparentRed, transparentBlue, 0.3, { space: 'srgb-linear' }).hex).toBe('a300d0')
+		// Hue is never premultiplied
+		expect(Color.interpolate(transparentRed, transparentBlue, 0.3, { space: 'hsl' }).hex).toBe('ff0099')
+		expect(Color.interpolate(transparentRed, transparentBlue, 0.3, { space: 'oklab' }).hex).toBe('6d50bc')
+		expect(Color.interpolate(transparentRed, transparentBlue, 0.3, { space: 'srgb', premultiplied: false }).hex).toBe('b3004d')
+		
+		// Fully transparent colors do not bleed
+		const fromTransparent = Color.interpolate(Color.fromName('transparent')!, blue, 0.5, { space: 'srgb' })
+		
+		expect(fromTransparent.hex).toBe('0000ff')
+		expect(fromTransparent.alpha).toBe(0.5)
+	})
+})
+
+describe('steps', () => {
+	const red = Color.fromHex('#ff0000'),
+		blue = Color.fromHex('#0000ff')
+	
+	it('should return evenly spaced colors including both ends', () => {
+		const steps = Color.steps([red, blue], 5, { space: 'srgb' })
+		
+		expect(steps.map(color => color.hex)).toEqual(['ff0000', 'bf0040', '800080', '4000bf', '0000ff'])
+	})
+	
+	it('should step through multiple colors', () => {
+		const steps = Color.steps([red, Color.fromHex('#ffffff'), blue], 5, { space: 'srgb' })
+		
+		expect(steps.map(color => color.hex)).toEqual(['ff0000', 'ff8080', 'ffffff', '8080ff', '0000ff'])
+	})
+})
@@ -41,3 +41,14 @@ describe('isLight', () => {
 		}
 	})
 })
+
+describe('isDark and isLight with alpha', () => {
+	it('should check semi-transparent colors on the background', () => {
+		const overlay = Color.fromHex('#000000').withAlpha(0.1)
+		
+		expect(overlay.isDark()).toBe(false)
+		expect(overlay.isLight()).toBe(true)
+		expect(overlay.isDark(Color.fromHex('#2b2b2b'))).toBe(true)
+		expect(overlay.perceivedBrightness).toBeCloseTo(229.5, 10)
+	})
+})
@@ -43,3 +43,15 @@ describe('isLighterThan', () => {
 		}
 	})
 })
+
+describe('isDarkerThan and isLighterThan with alpha', () => {
+	it('should compare semi-transparent colors on the background', () => {
+		const overlay = Color.fromHex('#000000').withAlpha(0.2),
+			gray = Color.fromHex('#777777')
+		
+		expect(overlay.isDarkerThan(gray)).toBe(false)
+		expect(overlay.isLighterThan(gray)).toBe(true)
+		expect(overlay.isDarkerThan(gray, Color.fromHex('#808080'))).toBe(true)
+		expect(gray.isLighterThan(overlay, Color.fromHex('#808080'))).toBe(true)
+	})
+})
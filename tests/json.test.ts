@@ -39,3 +39,65 @@ describe('toJSON -> fromJSON', () => {
         expect(newColor.cssHSLA).toEqual(color.cssHSLA)
 	})
 })
+
+describe('toJSON -> fromJSON with alpha', () => {
+	it('should keep the alpha of hex colors', () => {
+		const color = Color.fromHex('#1177aa80')
+		const newColor = Color.fromJSON(JSON.stringify(color))
+		
+		expect(newColor.alpha).toEqual(color.alpha)
+		expect(newColor.cssHexAlpha).toEqual('#1177aa80')
+	})
+	
+	it('should restore alpha from 8-digit hex', () => {
+		expect(Color.fromJSON({ hex: '1177aa80' }).cssHexAlpha).toEqual('#1177aa80')
+	})
+})
+
+describe('toJSON -> fromJSON in other spaces', () => {
+	it('should keep the source space and out of gamut values', () => {
+		const colors = [
+			Color.fromOKLCH({ l: 0.7, c: 0.3, h: 0.4 }, 0.5),
+			Color.fromLab({ l: 50, a: 120, b: -90 }),
+			Color.fromHSV({ h: 0.3, s: 0.5, v: 0.25 }),
+			Color.fromXYZ({ x: 0.2, y: 0.3, z: 0.4 }, 1, 'D50'),
+		]
+		
+		for (const color of colors) {
+			const newColor = Color.fromJSON(JSON.stringify(color))
+			
+			expect(newColor.toJSON()).toEqual(color.toJSON())
+			expect(newColor.alpha).toEqual(color.alpha)
+		}
+		
+		expect(colors[0].toJSON()).toEqual({ space: 'oklch', l: 0.7, c: 0.3, h: 0.4, alpha: 0.5 })
+		expect(Color.fromJSON(colors[0].toJSON()).oklch.c).toEqual(0.3)
+		expect(Color.fromJSON(colors[1].toJSON()).lab).toEqual({ l: 50, a: 120, b: -90 })
+	})
+	
+	it('should return null for unknown spaces', () => {
+		expect(Color.fromJSON({ space: 'foo', l: 0.5 })).toBeNull()
+		expect(Color.fromJSON({ space: 'hex', l: 0.5 })).toBeNull()
+	})
+})
+
+describe('toJSON -> fromJSON of RGB and HSL colors', () => {
+	it('should restore colors with zero channels and hues', () => {
+		const colors = [
+			Color.fromHex('#000000').darken(10),
+			Color.fromHex('#ff0000').darken(10),
+			Color.fromHSL({ h: 0, s: 1, l: 0.5 }),
+			Color.mix(Color.fromHex('#000000'), Color.fromHex('#00ff00'), 50),
+		]
+		
+		for (const color of colors) {
+			const newColor = Color.fromJSON(JSON.stringify(color))
+			
+			expect(newColor, JSON.stringify(color)).not.toBeNull()
+			expect(newColor.toJSON()).toEqual(color.toJSON())
+		}
+		
+		expect(Color.fromJSON(colors[2].toJSON()).hsl).toEqual({ h: 0, s: 1, l: 0.5 })
+		expect(Color.fromJSON(colors[3].toJSON()).rgb).toEqual({ r: 0, g: 127.5, b: 0 })
+	})
+})
@@ -8,9 +8,10 @@ describe('mix', () => {
 		const mixed = c1.mixWith(c2, 50)
 		
 		expect(mixed).toBeInstanceOf(Color)
-		expect(mixed.rgb.r).toEqual(127)
-		expect(mixed.rgb.g).toEqual(127)
-		expect(mixed.rgb.b).toEqual(127)
+		expect(mixed.rgb.r).toEqual(127.5)
+		expect(mixed.rgb.g).toEqual(127.5)
+		expect(mixed.rgb.b).toEqual(127.5)
+		expect(mixed.hex).toEqual('808080')
 		expect(mixed.alpha).toEqual(1.0)
 	})
 	
@@ -56,9 +57,9 @@ describe('mix', () => {
 		const mixed = c1.mixWith(c2, 50)
 		
 		expect(mixed).toBeInstanceOf(Color)
-		expect(mixed.rgb.r).toEqual(127)
+		expect(mixed.rgb.r).toEqual(127.5)
 		expect(mixed.rgb.g).toEqual(0)
-		expect(mixed.rgb.b).toEqual(127)
+		expect(mixed.rgb.b).toEqual(127.5)
 		expect(mixed.alpha).toEqual(1.0)
 	})
 	
@@ -69,8 +70,23 @@ describe('mix', () => {
 		
 		expect(mixed).toBeInstanceOf(Color)
 		expect(mixed.rgb.r).toEqual(0)
-		expect(mixed.rgb.g).toEqual(127)
-		expect(mixed.rgb.b).toEqual(127)
+		expect(mixed.rgb.g).toEqual(127.5)
+		expect(mixed.rgb.b).toEqual(127.5)
 		expect(mixed.alpha).toEqual(0.0)
 	})
+	
+	it('should weight the channels by alpha like Sass', () => {
+		// Sass: mix(rgba(255, 0, 0, 1), rgba(0, 0, 255, 0)) == rgba(255, 0, 0, 0.5)
+		const opaque = Color.fromString('#ff0000').mixWith(Color.fromString('#0000ff').withAlpha(0), 50)
+		
+		expect(opaque.rgb).toEqual({ r: 255, g: 0, b: 0 })
+		expect(opaque.alpha).toEqual(0.5)
+		
+		// Sass: mix(rgba(255, 0, 0, 0.5), #0000ff, 25%) == rgba(26, 0, 230, 0.875)
+		const mixed = Color.fromString('#ff0000').withAlpha(0.5).mixWith(Color.fromString('#0000ff'), 25)
+		
+		expect(mixed.rgb.r).toBeCloseTo(25.5, 10)
+		expect(mixed.rgb.b).toBeCloseTo(229.5, 10)
+		expect(mixed.alpha).toEqual(0.875)
+	})
 })
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { Color, ColorType } from '../src'
+
+describe('fromString', () => {
+	it('should parse named colors', () => {
+		const examples = {
+			'rebeccapurple': '#663399',
+			'teal': '#008080',
+			'RED': '#ff0000',
+			' White ': '#ffffff',
+			'lightgoldenrodyellow': '#fafad2',
+		}
+		
+		for (let source in examples) {
+			const target = examples[source]
+			const color = Color.fromString(source)
+			
+			expect(color, source).toBeInstanceOf(Color)
+			expect(color.cssHex, source).toEqual(target)
+			expect(color.alpha, source).toEqual(1)
+		}
+	})
+	
+	it('should parse transparent', () => {
+		const color = Color.fromString('transparent')
+		
+		expect(color.cssRGBA).toEqual('rgba(0, 0, 0, 0)')
+		expect(Color.detectType('Transparent')).toEqual(ColorType.named)
+	})
+	
+	it('should return null for unknown names without a resolver', () => {
+		expect(Color.fromString('currentColor')).toBeNull()
+		expect(Color.fromName('notacolor')).toBeNull()
+	})
+})
+
+describe('resolveKeyword', () => {
+	it('should resolve context-dependent keywords', () => {
+		const resolver = (keyword: string) => {
+			switch (keyword.toLowerCase()) {
+				case 'currentcolor': return Color.fromHex('#17a')
+				case 'canvastext': return 'rgb(0 0 0 / 50%)'
+				default: return null
+			}
+		}
+		
+		expect(Color.fromString('currentColor', resolver).cssHex).toEqual('#1177aa')
+		expect(Color.fromString('CanvasText', resolver).cssRGBA).toEqual('rgba(0, 0, 0, 0.5)')
+		expect(Color.fromString('Canvas', resolver)).toBeNull()
+	})
+	
+	it('should prefer named colors and only pass identifiers', () => {
+		const keywords: string[] = []
+		const resolver = (keyword: string) => {
+			keywords.push(keyword)
+			return '#fff'
+		}
+		
+		expect(Color.fromString('red', resolver).cssHex).toEqual('#ff0000')
+		expect(Color.fromString('url(#gradient)', resolver)).toBeNull()
+		expect(Color.fromString(' currentColor ', resolver).cssHex).toEqual('#ffffff')
+		expect(keywords).toEqual(['currentColor'])
+	})
+})
+
+describe('name', () => {
+	it('should return the CSS name of a color', () => {
+		expect(Color.fromHex('#663399').name).toEqual('rebeccapurple')
+		expect(Color.fromHex('#FF0000').name).toEqual('red')
+		expect(Color.fromRGB({ r: 0, g: 128, b: 128 }).name).toEqual('teal')
+		expect(Color.fromHex('#0ff').name).toEqual('aqua')
+		expect(Color.fromString('transparent').name).toEqual('transparent')
+	})
+	
+	it('should return null if there is no exact match', () => {
+		expect(Color.fromHex('#663398').name).toBeNull()
+		expect(Color.fromHex('#663399').withAlpha(0.5).name).toBeNull()
+		expect(Color.fromHex('#ff0000').withAlpha(0).name).toBeNull()
+		expect(Color.fromRGB({ r: 254.6, g: 0, b: 0 }).name).toBeNull()
+		expect(Color.fromHSL({ h: 0, s: 1, l: 0.5 }).name).toEqual('red')
+	})
+	
+	it('should round-trip named colors', () => {
+		for (const name of ['aliceblue', 'darkslategray', 'fuchsia', 'yellowgreen']) {
+			expect(Color.fromString(name).name, name).toEqual(name)
+		}
+	})
+})
@@ -54,6 +54,31 @@ describe('normalizeHex', () => {
 		}
 	})
 	
+	it('should convert abcd to aabbccdd', () => {
+		const examples = {
+			'17a8': '1177aa88',
+			'#0000': '00000000',
+			'ffff': 'ffffffff',
+			'0fc8': '00ffcc88',
+		}
+		
+		for (let example in examples) {
+			expect(Color.normalizeHex(example)).toEqual(examples[example])
+		}
+	})
+	
+	it('should leave abcdefgh alone', () => {
+		const examples = {
+			'1177aa80': '1177aa80',
+			'#00000000': '00000000',
+			'ffffffff': 'ffffffff',
+		}
+		
+		for (let example in examples) {
+			expect(Color.normalizeHex(example)).toEqual(examples[example])
+		}
+	})
+	
 	it('should return null for invalid inputs', () => {
 		const examples = [
 			null,
@@ -62,7 +87,10 @@ describe('normalizeHex', () => {
 			'1',
 			{},
 			[],
-			'##27'
+			'##27',
+			'12345',
+			'1234567',
+			'123456789'
 		]
 		
 		for (let example of examples) {
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { Color, OKLab, OKLCH } from '../src'
+
+const examples: any[] = [
+	{
+		hex: 'ff0000',
+		oklab: { l: 0.627955, a: 0.224863, b: 0.125846 },
+		oklch: { l: 0.627955, c: 0.257683, h: 29.2339 / 360 },
+	},
+	{
+		hex: '00ff00',
+		oklab: { l: 0.866440, a: -0.233888, b: 0.179498 },
+		oklch: { l: 0.866440, c: 0.294827, h: 142.4953 / 360 },
+	},
+	{
+		hex: '0000ff',
+		oklab: { l: 0.452014, a: -0.032457, b: -0.311528 },
+		oklch: { l: 0.452014, c: 0.313214, h: 264.0520 / 360 },
+	},
+	{
+		hex: 'ffffff',
+		oklab: { l: 1, a: 0, b: 0 },
+		oklch: { l: 1, c: 0, h: 0 },
+	}
+]
+
+describe('rgb->oklab', () => {
+	it('should convert RGB to OKLab', () => {
+		for (const example of examples) {
+			const result = Color.fromHex(example.hex).oklab
+			
+			expect(result.l, example.hex).toBeCloseTo(example.oklab.l, 5)
+			expect(result.a, example.hex).toBeCloseTo(example.oklab.a, 5)
+			expect(result.b, example.hex).toBeCloseTo(example.oklab.b, 5)
+		}
+	})
+})
+
+describe('rgb->oklch', () => {
+	it('should convert RGB to OKLCH', () => {
+		for (const example of examples) {
+			const result = Color.fromHex(example.hex).oklch
+			
+			expect(result.l, example.hex).toBeCloseTo(example.oklch.l, 5)
+			expect(result.c, example.hex).toBeCloseTo(example.oklch.c, 5)
+			expect(result.h, example.hex).toBeCloseTo(example.oklch.h, 5)
+		}
+	})
+})
+
+describe('oklab->rgb', () => {
+	it('should convert OKLab and OKLCH to RGB', () => {
+		for (const example of examples) {
+			expect(Color.fromOKLab(example.oklab).hex, example.hex).toEqual(example.hex)
+			expect(Color.fromOKLCH(example.oklch).hex, example.hex).toEqual(example.hex)
+		}
+	})
+	
+	it('should clip colors outside of sRGB', () => {
+		const color = Color.fromOKLCH({ l: 0.7, c: 0.4, h: 0.4 })
+		
+		for (const channel of color.rgbArray) {
+			expect(channel).toBeGreaterThanOrEqual(0)
+			expect(channel).toBeLessThanOrEqual(255)
+		}
+	})
+})
+
+describe('oklab', () => {
+	it('should keep the values it was created with', () => {
+		const oklch: OKLCH = { l: 0.6512345, c: 0.1234567, h: 0.7654321 }
+		const color = Color.fromOKLCH(oklch, 0.5)
+		
+		expect(color.oklch).toEqual(oklch)
+		expect(color.alpha).toEqual(0.5)
+		
+		const oklab: OKLab = { l: 0.6512345, a: -0.1, b: 0.05 }
+		expect(Color.fromOKLab(oklab).oklab).toEqual(oklab)
+	})
+	
+	it('should derive OKLCH from OKLab without going through RGB', () => {
+		const color = Color.fromOKLab({ l: 0.5, a: 0, b: 0.1 })
+		
+		expect(color.oklch.l).toEqual(0.5)
+		expect(color.oklch.c).toBeCloseTo(0.1, 10)
+		expect(color.oklch.h).toBeCloseTo(0.25, 10)
+	})
+	
+	it('should output CSS strings', () => {
+		const oklch: OKLCH = { l: 0.62796, c: 0.25768, h: 0.5 }
+		
+		expect(Color.fromOKLCH(oklch).cssOKLCH).toEqual('oklch(62.796% 0.2577 180)')
+		expect(Color.fromOKLCH(oklch, 0.5).cssOKLCH).toEqual('oklch(62.796% 0.2577 180 / 0.5)')
+		expect(Color.fromOKLab({ l: 0.5, a: -0.1, b: 0.12345 }).cssOKLab).toEqual('oklab(50% -0.1 0.1235)')
+	})
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { Color, PaletteAlgorithm, PaletteSpace } from '../src'
+
+const algorithms: PaletteAlgorithm[] = ['median-cut', 'k-means', 'octree'],
+	spaces: PaletteSpace[] = ['srgb', 'oklab', 'lab']
+
+// A one pixel high image with the given number of pixels per RGBA color
+const image = (colors: [number[], number][]) => {
+	const pixels: number[] = []
+	
+	for (const [rgba, count] of colors) {
+		for (let i = 0; i < count; i++) {
+			pixels.push(...rgba)
+		}
+	}
+	
+	return new Uint8ClampedArray(pixels)
+}
+
+// Red to blue from left to right, green from top to bottom
+const gradient = (width: number, height: number) => {
+	const pixels = new Uint8ClampedArray(width * height * 4)
+	
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			pixels.set([x * 255 / (width - 1), y * 255 / (height - 1), 255 - x * 255 / (width - 1), 255], (y * width + x) * 4)
+		}
+	}
+	
+	return pixels
+}
+
+describe('palette', () => {
+	it('should find the colors of an image with their population', () => {
+		const pixels = image([[[255, 0, 0, 255], 60], [[0, 0, 255, 255], 30], [[0, 255, 0, 255], 10]])
+		
+		for (const algorithm of algorithms) {
+			for (const space of spaces) {
+				const palette = Color.extractPalette(pixels, 10, 10, { count: 3, algorithm, space }),
+					label = `${algorithm} ${space}`
+				
+				expect(palette.swatches.map(swatch => swatch.color.hex), label).toEqual(['ff0000', '0000ff', '00ff00'])
+				expect(palette.swatches.map(swatch => swatch.population), label).toEqual([60, 30, 10])
+				expect(palette.swatches.map(swatch => swatch.weight), label).toEqual([0.6, 0.3, 0.1])
+				expect(palette.dominant!.hex, label).toBe('ff0000')
+			}
+		}
+	})
+	
+	it('should return the requested number of colors', () => {
+		const pixels = gradient(64, 32)
+		
+		for (const algorithm of algorithms) {
+			for (const space of spaces) {
+				for (const count of [1, 2, 5, 8]) {
+					const palette = Color.extractPalette(pixels, 64, 32, { count, algorithm, space }),
+						label = `${algorithm} ${space} ${count}`
+					
+					expect(palette.swatches, label).toHaveLength(count)
+					expect(palette.swatches.reduce((sum, swatch) => sum + swatch.population, 0), label).toBe(64 * 32)
+					expect(palette.swatches.reduce((sum, swatch) => sum + swatch.weight, 0), label).toBeCloseTo(1, 10)
+					expect(palette.dominant, label).toBe(palette.swatches[0].color)
+					
+					for (let i = 1; i < count; i++) {
+						expect(palette.swatches[i].population, label).toBeLessThanOrEqual(palette.swatches[i - 1].population)
+					}
+				}
+			}
+		}
+	})
+	
+	it('should ignore transparent pixels', () => {
+		const pixels = image([[[255, 0, 0, 255], 3], [[0, 0, 255, 127], 5], [[0, 0, 0, 0], 8]])
+		
+		const palette = Color.extractPalette(pixels, 4, 4, { count: 3 })
+		
+		expect(palette.swatches).toHaveLength(1)
+		expect(palette.swatches[0].weight).toBe(1)
+		expect(palette.dominant!.hex).toBe('ff0000')
+		
+		const all = Color.extractPalette(pixels, 4, 4, { count: 3, ignoreTransparent: false })
+		
+		expect(all.swatches.map(swatch => swatch.color.hex)).toEqual(['000000', '0000ff', 'ff0000'])
+		expect(all.swatches.map(swatch => swatch.weight)).toEqual([0.5, 0.3125, 0.1875])
+		
+		const empty = Color.extractPalette(new Uint8ClampedArray(16), 2, 2)
+		
+		expect(empty.swatches).toEqual([])
+		expect(empty.dominant).toBeNull()
+	})
+	
+	it('should reject invalid input', () => {
+		expect(() => Color.extractPalette(new Uint8ClampedArray(12), 2, 2)).toThrow()
+		
+		for (const count of [0, -1, 2.5, NaN, Infinity]) {
+			expect(() => Color.extractPalette(new Uint8ClampedArray(16), 2, 2, { count }), `${count}`).toThrow('A palette needs a whole number of at least one color')
+		}
+	})
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+const samples = ['#17a3c8', '#ff0000', '#7f3a91', '#c0ffee', '#010203', '#808080', '#000000', '#ffffff']
+	.map(hex => Color.fromHex(hex))
+
+const expectCloseComponents = <T extends Record<keyof T, number>>(actual: T, expected: T, digits = 8) => {
+	for (const key in expected) {
+		expect(actual[key], key).toBeCloseTo(expected[key], digits)
+	}
+}
+
+describe('precision', () => {
+	it('should keep unrounded channels', () => {
+		const color = Color.fromRGB({ r: 10.25, g: 20.5, b: 30.75 })
+		
+		expect(color.rgb).toEqual({ r: 10.25, g: 20.5, b: 30.75 })
+		expect(color.hex).toBe('0a151f')
+		expect(color.rgbString).toBe('10, 21, 31')
+		expect(Color.fromHSL({ h: 0.1, s: 0.5, l: 0.5 }).rgb.g).toBeCloseTo(140.25, 10)
+	})
+	
+	it('should round trip through every representation', () => {
+		for (const color of samples) {
+			const rgb = color.rgb
+			
+			// YUV uses rounded coefficients, OKLab's matrices only have 10 digits and LCh drops the hue of near grays
+			const roundTrips: [Color, number][] = [
+				[Color.fromHSL(color.hsl), 6],
+				[Color.fromHSV(color.hsv), 6],
+				[Color.fromHWB(color.hwb), 6],
+				[Color.fromCMYK(color.cmyk), 6],
+				[Color.fromYUV(color.yuv), 0],
+				[Color.fromOKLab(color.oklab), 3],
+				[Color.fromOKLCH(color.oklch), 3],
+				[Color.fromXYZ(color.xyz), 6],
+				[Color.fromLab(color.lab), 6],
+				[Color.fromLCh(color.lch), 3],
+			]
+			
+			for (const [roundTrip, digits] of roundTrips) {
+				expectCloseComponents(roundTrip.rgb, rgb, digits)
+				expect(roundTrip.hex).toBe(color.hex)
+			}
+		}
+	})
+	
+	it('should round trip between representations without going through RGB', () => {
+		const oklch = { l: 0.62, c: 0.13, h: 0.61 },
+			lch = { l: 48.5, c: 37.25, h: 0.3 },
+			hwb = { h: 0.45, w: 0.125, b: 0.25 }
+		
+		expectCloseComponents(Color.fromOKLCH(oklch).oklch, oklch)
+		expectCloseComponents(Color.fromOKLab(Color.fromOKLCH(oklch).oklab).oklch, oklch)
+		expectCloseComponents(Color.fromLab(Color.fromLCh(lch).lab).lch, lch)
+		expectCloseComponents(Color.fromXYZ(Color.fromLCh(lch).xyz).lch, lch)
+		expectCloseComponents(Color.fromHSV(Color.fromHWB(hwb).hsv).hwb, hwb)
+		expectCloseComponents(Color.fromHSL(Color.fromHWB(hwb).hsl).hwb, hwb)
+	})
+	
+	it('should be immutable', () => {
+		const color = Color.fromHex('#17a3c8')
+		
+		expect(Object.isFrozen(color)).toBe(true)
+		expect(Object.isFrozen(color.rgb)).toBe(true)
+		expect(Object.isFrozen(color.hsl)).toBe(true)
+		expect(() => Object.assign(color, { alpha: 0.5 })).toThrow()
+		expect(() => Object.assign(color.hsl, { l: 0.5 })).toThrow()
+		expect(color.hex).toBe('17a3c8')
+		
+		// Components are copied on creation
+		const rgb = { r: 255, g: 0, b: 0 },
+			red = Color.fromRGB(rgb)
+		
+		rgb.g = 255
+		
+		expect(red.hex).toBe('ff0000')
+	})
+	
+	it('should allow subclasses with their own fields', () => {
+		class Swatch extends Color {
+			public readonly label: string
+			
+			constructor(label: string) {
+				super({ hex: '17a3c8' })
+				this.label = label
+				Object.freeze(this)
+			}
+		}
+		
+		const swatch = new Swatch('Brand')
+		
+		expect(swatch.label).toBe('Brand')
+		expect(swatch.hex).toBe('17a3c8')
+		expect(Object.isFrozen(swatch)).toBe(true)
+	})
+	
+	it('should return consistent values after changing a component', () => {
+		const color = Color.fromHex('#17a3c8'),
+			lighter = color.withLightness(0.8)
+		
+		// Access the caches of the original first, they must not leak into the new color
+		expect(color.rgb).toEqual({ r: 23, g: 163, b: 200 })
+		expect(lighter.hsl.l).toBe(0.8)
+		expect(Color.fromRGB(lighter.rgb).hsl.l).toBeCloseTo(0.8, 10)
+		expect(lighter.hex).not.toBe(color.hex)
+		expect(lighter.withAlpha(0.5).hex).toBe(lighter.hex)
+		expect(color.withHue(0.5).withHue(color.hsl.h).hex).toBe(color.hex)
+		expect(color.withSaturation(0.2).rgb).not.toEqual(color.rgb)
+	})
+	
+	it('should not drift when chaining operations', () => {
+		let color = Color.fromHex('#17a3c8')
+		
+		for (let i = 0; i < 100; i++) {
+			color = color.shiftHue(0.1).withLightness(color.hsl.l)
+		}
+		
+		expectCloseComponents(color.rgb, Color.fromHex('#17a3c8').rgb, 6)
+		
+		let mixed = Color.fromHex('#000000')
+		
+		for (let i = 0; i < 8; i++) {
+			mixed = Color.mix(mixed, Color.fromHex('#ffffff'), 50)
+		}
+		
+		expect(mixed.rgb.r).toBeCloseTo(255 - 255 / 256, 10)
+	})
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { Color, DitherMethod } from '../src'
+
+const blackAndWhite = [Color.fromHex('#000000'), Color.fromHex('#ffffff')]
+
+// An image filled with a single RGBA color
+const fill = (width: number, height: number, rgba: number[]) => {
+	const pixels = new Uint8ClampedArray(width * height * 4)
+	
+	for (let i = 0; i < width * height; i++) {
+		pixels.set(rgba, i * 4)
+	}
+	
+	return pixels
+}
+
+const average = (pixels: Uint8ClampedArray) => {
+	let sum = 0
+	
+	for (let i = 0; i < pixels.length; i += 4) {
+		sum += pixels[i]
+	}
+	
+	return sum / (pixels.length / 4)
+}
+
+describe('quantize', () => {
+	it('should map pixels to the nearest palette color', () => {
+		const palette = ['#000000', '#ffffff', '#ff0000', '#0000ff'].map(hex => Color.fromHex(hex)),
+			pixels = Uint8ClampedArray.from([250, 10, 20, 255, 30, 20, 200, 128, 240, 240, 230, 0, 20, 20, 20, 255])
+		
+		const result = Color.quantize(pixels, 2, 2, palette)
+		
+		expect(Array.from(result.indices)).toEqual([2, 3, 1, 0])
+		expect(Array.from(result.pixels)).toEqual([255, 0, 0, 255, 0, 0, 255, 128, 255, 255, 255, 0, 0, 0, 0, 255])
+		expect(Array.from(Color.quantize(Uint8Array.from([10, 10, 10, 255]), 1, 1, blackAndWhite).pixels)).toEqual([0, 0, 0, 255])
+	})
+	
+	it('should use the selected metric', () => {
+		const pixels = fill(1, 1, [110, 110, 110, 255])
+		
+		// Euclidean sRGB distance ignores that gamma encoded values are darker than they look
+		expect(Color.quantize(pixels, 1, 1, blackAndWhite, { metric: 'rgb' }).indices[0]).toBe(0)
+		expect(Color.quantize(pixels, 1, 1, blackAndWhite).indices[0]).toBe(1)
+		expect(Color.quantize(pixels, 1, 1, blackAndWhite, { metric: 'CIEDE2000' }).indices[0]).toBe(0)
+		expect(Color.quantize(pixels, 1, 1, blackAndWhite, { metric: 'CMC', weights: { l: 1, c: 1 } }).indices[0]).toBe(0)
+	})
+	
+	it('should keep the average brightness when dithering', () => {
+		// Atkinson drops part of the error on purpose
+		const methods: DitherMethod[] = ['floyd-steinberg', 'bayer']
+		
+		for (const dither of methods) {
+			for (const gray of [64, 128, 192]) {
+				const result = Color.quantize(fill(32, 32, [gray, gray, gray, 255]), 32, 32, blackAndWhite, { dither, metric: 'rgb' })
+				
+				expect(Math.abs(average(result.pixels) - gray), `${dither} ${gray}`).toBeLessThan(16)
+				expect(new Set(result.indices).size, `${dither} ${gray}`).toBe(2)
+			}
+		}
+		
+		// Without dithering a flat color stays flat
+		expect(new Set(Color.quantize(fill(32, 32, [128, 128, 128, 255]), 32, 32, blackAndWhite).indices).size).toBe(1)
+	})
+	
+	it('should diffuse the error with Floyd–Steinberg and Atkinson', () => {
+		const pixels = fill(8, 8, [32, 32, 32, 255]),
+			floydSteinberg = Color.quantize(fill(4, 2, [128, 128, 128, 255]), 4, 2, blackAndWhite, { dither: 'floyd-steinberg', metric: 'rgb' })
+		
+		expect(Array.from(floydSteinberg.indices)).toEqual([1, 0, 1, 0, 0, 1, 0, 1])
+		
+		// Atkinson only diffuses part of the error
+		const atkinson = Color.quantize(pixels, 8, 8, blackAndWhite, { dither: 'atkinson', metric: 'rgb' }),
+			full = Color.quantize(pixels, 8, 8, blackAndWhite, { dither: 'floyd-steinberg', metric: 'rgb' })
+		
+		expect(average(atkinson.pixels)).toBeLessThan(average(full.pixels))
+		expect(Array.from(pixels)).toEqual(Array.from(fill(8, 8, [32, 32, 32, 255])))
+	})
+	
+	it('should dither with a repeating Bayer pattern', () => {
+		const pixels = fill(8, 8, [128, 128, 128, 255]),
+			result = Color.quantize(pixels, 8, 8, blackAndWhite, { dither: 'bayer', bayerSize: 2, metric: 'rgb' })
+		
+		for (let y = 0; y < 8; y++) {
+			expect(Array.from(result.indices.slice(y * 8, y * 8 + 8))).toEqual(y % 2 ? [1, 0, 1, 0, 1, 0, 1, 0] : [0, 1, 0, 1, 0, 1, 0, 1])
+		}
+		
+		const large = Color.quantize(fill(16, 16, [100, 100, 100, 255]), 16, 16, blackAndWhite, { dither: 'bayer', bayerSize: 8, metric: 'rgb' })
+		
+		for (let y = 0; y < 8; y++) {
+			for (let x = 0; x < 8; x++) {
+				expect(large.indices[(y + 8) * 16 + x + 8]).toBe(large.indices[y * 16 + x])
+			}
+		}
+	})
+	
+	it('should reject invalid input', () => {
+		expect(() => Color.quantize(new Uint8ClampedArray(12), 2, 2, blackAndWhite)).toThrow()
+		expect(() => Color.quantize(new Uint8ClampedArray(16), 2, 2, [])).toThrow()
+	})
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+describe('createScale', () => {
+	const white = Color.fromHex('#ffffff'),
+		red = Color.fromHex('#ff0000'),
+		blue = Color.fromHex('#0000ff')
+	
+	it('should map the default domain', () => {
+		const scale = Color.createScale([red, blue], { space: 'srgb' })
+		
+		expect(scale.domain).toEqual([0, 1])
+		expect(scale.at(0).hex).toBe('ff0000')
+		expect(scale.at(0.3).hex).toBe('b3004d')
+		expect(scale.at(1).hex).toBe('0000ff')
+		expect(scale.at(-1).hex).toBe('ff0000')
+		expect(scale.at(2).hex).toBe('0000ff')
+	})
+	
+	it('should support multi-stop domains', () => {
+		const scale = Color.createScale([red, white, blue], { domain: [0, 10, 100], space: 'srgb' }),
+			even = Color.createScale([red, white, blue], { domain: [0, 100], space: 'srgb' })
+		
+		expect(scale.at(5).hex).toBe('ff8080')
+		expect(scale.at(10).hex).toBe('ffffff')
+		expect(scale.at(55).hex).toBe('8080ff')
+		
+		// Two values spread the colors evenly
+		expect(even.domain).toEqual([0, 50, 100])
+		expect(even.at(50).hex).toBe('ffffff')
+	})
+	
+	it('should sample colors', () => {
+		const scale = Color.createScale([red, blue], { space: 'srgb' })
+		
+		expect(scale.colors(5).map(color => color.hex)).toEqual(['ff0000', 'bf0040', '800080', '4000bf', '0000ff'])
+		expect(scale.colors().length).toBe(2)
+	})
+	
+	it('should apply gamma and padding', () => {
+		const gamma = Color.createScale([red, blue], { space: 'srgb', gamma: 2 }),
+			padded = Color.createScale([red, blue], { space: 'srgb', padding: 0.25 }),
+			paddedEnd = Color.createScale([red, blue], { space: 'srgb', padding: [0, 0.5] })
+		
+		expect(gamma.at(0.5).hex).toBe('bf0040')
+		expect(padded.at(0).hex).toBe('bf0040')
+		expect(padded.at(1).hex).toBe('4000bf')
+		expect(paddedEnd.at(1).hex).toBe('800080')
+	})
+	
+	it('should split into classes', () => {
+		const scale = Color.createScale([red, blue], { space: 'srgb', domain: [0, 100], classes: 3 }),
+			breaks = Color.createScale([red, blue], { space: 'srgb', domain: [0, 100], classes: [0, 10, 50, 100] })
+		
+		expect(scale.classes).toEqual([0, 100 / 3, 200 / 3, 100])
+		expect(scale.at(10).hex).toBe('ff0000')
+		expect(scale.at(40).hex).toBe('800080')
+		expect(scale.at(90).hex).toBe('0000ff')
+		expect(scale.colors().map(color => color.hex)).toEqual(['ff0000', '800080', '0000ff'])
+		expect(breaks.at(5).hex).toBe('ff0000')
+		expect(breaks.at(20).hex).toBe('800080')
+		expect(breaks.at(60).hex).toBe('0000ff')
+	})
+	
+	it('should interpolate with bezier curves and cubehelix', () => {
+		const bezier = Color.createScale([Color.fromHex('#ffffe0'), red, Color.fromHex('#000080')], { mode: 'bezier' })
+		
+		expect(bezier.at(0).hex).toBe('ffffe0')
+		expect(Color.deltaE(bezier.at(0.5), Color.fromHex('#d85961'))).toBeLessThan(1)
+		expect(bezier.at(1).hex).toBe('000080')
+		expect(Color.createScale([red, blue], { mode: 'cubehelix' }).at(0.3).hex).toBe('ff0076')
+		expect(Color.createScale([Color.fromHex('#000000'), white], { mode: 'cubehelix' }).at(0.5).hex).toBe('808080')
+	})
+	
+	it('should invert colors to values', () => {
+		const scale = Color.createScale([red, white, blue], { domain: [0, 10, 100] })
+		
+		expect(scale.invert(red)).toBeCloseTo(0, 3)
+		expect(scale.invert(white)).toBeCloseTo(10, 3)
+		expect(scale.invert(scale.at(42))).toBeCloseTo(42, 0)
+	})
+})
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+describe('shadeBlend', () => {
+	it('should blend towards black, white or another color', () => {
+		const color = Color.fromHex('#1177aa')
+		
+		expect(Color.shadeBlend(-0.5, color).rgb).toEqual({ r: 8.5, g: 59.5, b: 85 })
+		expect(Color.shadeBlend(0.5, color).rgb).toEqual({ r: 136, g: 187, b: 212.5 })
+		expect(Color.shadeBlend(1, color, Color.fromHex('#ff0000')).hex).toEqual('ff0000')
+	})
+	
+	it('should keep alpha', () => {
+		const color = Color.fromHex('#1177aa').withAlpha(0.4)
+		
+		expect(Color.shadeBlend(0.5, color).alpha).toEqual(0.4)
+		expect(Color.shadeBlend(-0.5, color).alpha).toEqual(0.4)
+		expect(Color.shadeBlend(0.5, color, Color.fromHex('#ff0000')).alpha).toEqual(0.7)
+	})
+})
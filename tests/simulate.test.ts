@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { Color, colorVisionMatrix } from '../src'
+
+describe('simulate', () => {
+	const red = Color.fromHex('#ff0000'),
+		blue = Color.fromHex('#0000ff'),
+		yellow = Color.fromHex('#ffff00')
+	
+	it('should make red and green harder to tell apart for red-green deficiencies', () => {
+		// A red and a green of similar lightness
+		const signalRed = Color.fromHex('#cc4444'),
+			signalGreen = Color.fromHex('#6b8f2f'),
+			normal = Color.deltaE(signalRed, signalGreen)
+		
+		expect(Color.deltaE(signalRed.simulate('protanopia'), signalGreen.simulate('protanopia'))).toBeLessThan(normal / 2)
+		expect(Color.deltaE(signalRed.simulate('deuteranopia'), signalGreen.simulate('deuteranopia'))).toBeLessThan(normal / 10)
+		expect(Color.deltaE(signalRed.simulate('tritanopia'), signalGreen.simulate('tritanopia'))).toBeGreaterThan(normal / 2)
+		expect(red.simulate('protanopia').hex).toBe('6d5f00')
+		expect(red.withAlpha(0.5).simulate('protanopia').alpha).toBe(0.5)
+	})
+	
+	it('should make blue and yellow harder to tell apart for tritanopia', () => {
+		const normal = Color.deltaE(blue, yellow)
+		
+		expect(Color.deltaE(blue.simulate('tritanopia'), yellow.simulate('tritanopia'))).toBeLessThan(
+			Color.deltaE(blue.simulate('protanopia'), yellow.simulate('protanopia'))
+		)
+		expect(Color.deltaE(blue.simulate('tritanopia'), yellow.simulate('tritanopia'))).toBeLessThan(normal)
+	})
+	
+	it('should treat severity as continuous', () => {
+		for (const type of ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'] as const) {
+			expect(Color.fromHex('#17a3c8').simulate(type, 0).hex).toBe('17a3c8')
+		}
+		
+		const distances = [0, 0.25, 0.5, 0.75, 1].map(severity => Color.deltaE(red, red.simulate('deuteranopia', severity)))
+		
+		for (let i = 1; i < distances.length; i++) {
+			expect(distances[i]).toBeGreaterThan(distances[i - 1])
+		}
+		
+		expect(colorVisionMatrix('protanopia', 0.55)[0][0]).toBeCloseTo((0.458064 + 0.385450) / 2, 6)
+		expect(colorVisionMatrix('protanopia', 2)).toEqual(colorVisionMatrix('protanopia', 1))
+	})
+	
+	it('should simulate achromatopsia as grays of the same luminance', () => {
+		const gray = Color.fromHex('#17a3c8').simulate('achromatopsia')
+		
+		expect(gray.rgb.r).toBe(gray.rgb.g)
+		expect(gray.rgb.g).toBe(gray.rgb.b)
+		expect(gray.relativeLuminance).toBeCloseTo(Color.fromHex('#17a3c8').relativeLuminance, 2)
+	})
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { Color, Spectrum, emissionToXyz, illuminantWhitePoint, reflectanceToXyz, wavelengthToXyz } from '../src'
+
+// Spectral radiance of a black body, relative
+const planck = (kelvin: number): Spectrum => Array.from({ length: 81 }, (_, i) => {
+	const wavelength = (380 + i * 5) * 1e-9
+	
+	return [380 + i * 5, 1 / (Math.pow(wavelength, 5) * (Math.exp(0.014388 / (wavelength * kelvin)) - 1))]
+})
+
+const red: Spectrum = [[400, 0.05], [500, 0.05], [560, 0.08], [600, 0.6], [700, 0.85]]
+
+describe('spectral', () => {
+	it('should calculate the white points of illuminants', () => {
+		// CIE 15 white points, the small differences come from the 5 nm tables
+		const expected: [Parameters<typeof illuminantWhitePoint>, number, number][] = [
+			[['A', 'CIE1931'], 1.09850, 0.35585],
+			[['D50', 'CIE1931'], 0.96422, 0.82521],
+			[['D65', 'CIE1931'], 0.95047, 1.08883],
+			[['F2', 'CIE1931'], 0.99187, 0.67395],
+			[['F11', 'CIE1931'], 1.00966, 0.64370],
+			[['A', 'CIE1964'], 1.11144, 0.35200],
+			[['D50', 'CIE1964'], 0.96720, 0.81427],
+			[['D65', 'CIE1964'], 0.94811, 1.07304],
+			[['F2', 'CIE1964'], 1.03280, 0.69026],
+			[['F11', 'CIE1964'], 1.03866, 0.65627],
+		]
+		
+		for (const [args, x, z] of expected) {
+			const white = illuminantWhitePoint(...args)
+			
+			expect(white.y).toBeCloseTo(1, 10)
+			expect(Math.abs(white.x - x), args.join()).toBeLessThan(0.0005)
+			expect(Math.abs(white.z - z), args.join()).toBeLessThan(0.0005)
+		}
+	})
+	
+	it('should create colors from reflectance spectra', () => {
+		expect(Color.fromSpectrum(red).hex).toBe('e25731')
+		expect(Color.fromSpectrum(red, 0.5).alpha).toBe(0.5)
+		
+		// A perfect reflector is white and a 50% gray is gray under every illuminant
+		for (const illuminant of ['A', 'D50', 'D65', 'F2', 'F11'] as const) {
+			expect(Color.fromSpectrum([[400, 1], [700, 1]], 1, { illuminant }).hex).toBe('ffffff')
+			expect(Color.fromSpectrum([[400, 0.5], [700, 0.5]], 1, { illuminant, observer: 'CIE1964' }).hex).toBe('bcbcbc')
+		}
+		
+		// Colors look different under different light
+		expect(Color.fromSpectrum(red, 1, { illuminant: 'A' }).hex).toBe('f35e30')
+		expect(Color.fromSpectrum(red, 1, { illuminant: 'F11' }).hex).toBe('e95731')
+		
+		// Reflectance is relative to the illuminant
+		const xyz = reflectanceToXyz([[380, 0.5], [780, 0.5]], 'F11')
+		
+		expect(xyz.y).toBeCloseTo(0.5, 10)
+		expect(xyz.x).toBeCloseTo(illuminantWhitePoint('F11').x * 0.5, 10)
+		expect(reflectanceToXyz(red).y).toBeCloseTo(0.2307, 4)
+		expect(() => reflectanceToXyz([])).toThrow()
+	})
+	
+	it('should create colors from emission spectra', () => {
+		const light = Color.fromSpectrum(planck(2700), 1, { type: 'emission' })
+		
+		expect(light.hex).toBe('ffad59')
+		expect(light.cct.kelvin).toBeCloseTo(2700, -1)
+		expect(Color.fromSpectrum([[555, 0]], 1, { type: 'emission' }).hex).toBe('000000')
+		
+		// No light is emitted outside of the measured range
+		expect(emissionToXyz([[555, 1]])).toEqual({ x: 0.5120501 * 5, y: 5, z: 0.005749999 * 5 })
+		expect(emissionToXyz([[300, 1], [370, 1]])).toEqual({ x: 0, y: 0, z: 0 })
+	})
+	
+	it('should create colors from wavelengths', () => {
+		expect(Color.fromWavelength(470).hex).toBe('002dff')
+		expect(Color.fromWavelength(580).hex).toBe('ffb400')
+		expect(Color.fromWavelength(520).inGamut()).toBe(false)
+		expect(Color.fromWavelength(600).toGamut().hex).toBe('fe4900')
+		expect(Color.fromWavelength(600, 0.5, 'CIE1964').alpha).toBe(0.5)
+		expect(wavelengthToXyz(555)).toEqual({ x: 0.5120501, y: 1, z: 0.005749999 })
+		expect(wavelengthToXyz(557.5).y).toBeCloseTo(0.9975, 10)
+		expect(wavelengthToXyz(560, 'CIE1964')).toEqual({ x: 0.705224, y: 0.99734, z: 0 })
+		expect(() => wavelengthToXyz(800)).toThrow()
+	})
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { Color, chromaticityToTemperature, kelvinToChromaticity } from '../src'
+
+describe('temperature', () => {
+	it('should place temperatures on the Planckian and daylight locus', () => {
+		const [x, y] = kelvinToChromaticity(2700),
+			[daylightX, daylightY] = kelvinToChromaticity(6504, 'daylight')
+		
+		expect(x).toBeCloseTo(0.4600, 3)
+		expect(y).toBeCloseTo(0.4110, 3)
+		expect(daylightX).toBeCloseTo(0.3127, 3)
+		expect(daylightY).toBeCloseTo(0.3291, 3)
+	})
+	
+	it('should create colors from Kelvin', () => {
+		expect(Color.fromKelvin(1900).hex).toBe('ff8400')
+		expect(Color.fromKelvin(2700).hex).toBe('ffad59')
+		expect(Color.fromKelvin(10000).hex).toBe('cdd9ff')
+		expect(Color.fromKelvin(6504, 1, 'daylight').hex).toBe('ffffff')
+		expect(Color.fromKelvin(2700, 0.5).alpha).toBe(0.5)
+		
+		// Temperatures outside of the locus are clamped
+		expect(Color.fromKelvin(500).hex).toBe(Color.fromKelvin(1000).hex)
+		expect(Color.fromKelvin(30000, 1, 'daylight').hex).toBe(Color.fromKelvin(25000, 1, 'daylight').hex)
+	})
+	
+	it('should calculate the correlated color temperature of illuminants', () => {
+		// Published CCTs, the fluorescent ones are rounded to 10K
+		const illuminants: [number, number, number, number][] = [
+			[0.44757, 0.40745, 2856, 5],
+			[0.34567, 0.35850, 5003, 5],
+			[0.33242, 0.34743, 5503, 5],
+			[0.31271, 0.32902, 6504, 5],
+			[0.29902, 0.31485, 7504, 5],
+			[0.37208, 0.37529, 4230, 10],
+			[0.31292, 0.32933, 6500, 10],
+			[0.38052, 0.37713, 4000, 10]
+		]
+		
+		for (const [x, y, kelvin, tolerance] of illuminants) {
+			expect(Math.abs(chromaticityToTemperature(x, y).kelvin - kelvin), `${kelvin}K`).toBeLessThan(tolerance)
+		}
+		
+		expect(chromaticityToTemperature(0.44757, 0.40745).duv).toBeCloseTo(0, 3)
+		expect(chromaticityToTemperature(0.34567, 0.35850).duv).toBeCloseTo(0.0033, 3)
+		expect(chromaticityToTemperature(0.31271, 0.32902).duv).toBeCloseTo(0.0032, 3)
+	})
+	
+	it('should calculate the correlated color temperature of colors', () => {
+		for (const kelvin of [1900, 2700, 4000, 6500, 12000]) {
+			const cct = Color.fromKelvin(kelvin).cct
+			
+			expect(cct.kelvin).toBeCloseTo(kelvin, 3)
+			expect(cct.duv).toBeCloseTo(0, 6)
+		}
+		
+		expect(Math.abs(Color.fromHex('#ffffff').cct.kelvin - 6504)).toBeLessThan(5)
+		expect(Color.fromHex('#00ff00').cct.duv).toBeGreaterThan(0.05)
+		expect(Color.fromHex('#ff00ff').cct.duv).toBeLessThan(0)
+		expect(Color.fromHex('#000000').cct.kelvin).toBeNaN()
+	})
+	
+	it('should make colors warmer and cooler', () => {
+		const color = Color.fromHex('#17a3c8'),
+			white = Color.fromHex('#ffffff')
+		
+		expect(color.warmer().hex).toBe('27a3c1')
+		expect(color.cooler().hex).toBe('00a3ce')
+		expect(white.warmer(2000).cct.kelvin).toBeLessThan(5000)
+		expect(white.cooler(2000).cct.kelvin).toBeGreaterThan(8000)
+		expect(color.warmer(0).hex).toBe(color.hex)
+		expect(color.withAlpha(0.5).warmer().alpha).toBe(0.5)
+	})
+})
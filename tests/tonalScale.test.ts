@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { Color } from '../src'
+
+const steps = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950]
+
+describe('tonalScale', () => {
+	const base = Color.fromHex('#3b82f6')
+	
+	it('should generate the default steps from light to dark', () => {
+		const scale = Color.tonalScale(base),
+			lightness = steps.map(step => scale[step].oklch.l)
+		
+		expect(Object.keys(scale).map(Number)).toEqual(steps)
+		expect(scale[500]).toBe(base)
+		expect(lightness[0]).toBeCloseTo(0.97, 2)
+		expect(lightness[lightness.length - 1]).toBeCloseTo(0.25, 2)
+		
+		for (let i = 1; i < lightness.length; i++) {
+			expect(lightness[i]).toBeLessThan(lightness[i - 1])
+			expect(scale[steps[i]].oklch.h).toBeCloseTo(base.oklch.h, 2)
+		}
+	})
+	
+	it('should pin the base color to a chosen step', () => {
+		const scale = Color.tonalScale(base, { baseStep: 300 })
+		
+		expect(scale[300]).toBe(base)
+		expect(scale[200].oklch.l).toBeGreaterThan(base.oklch.l)
+		expect(scale[400].oklch.l).toBeLessThan(base.oklch.l)
+		expect(() => Color.tonalScale(base, { baseStep: 550 })).toThrow('The base step is not one of the steps: 550')
+	})
+	
+	it('should ease chroma towards the ends', () => {
+		const eased = Color.tonalScale(base),
+			kept = Color.tonalScale(base, { chromaEasing: 0 })
+		
+		expect(eased[50].oklch.c).toBeLessThan(base.oklch.c)
+		expect(eased[50].oklch.c).toBeLessThan(kept[50].oklch.c + 0.001)
+		expect(eased[950].oklch.c).toBeLessThan(kept[950].oklch.c)
+	})
+	
+	it('should accept a lightness curve', () => {
+		const linear = Color.tonalScale(base, { baseStep: 950 }),
+			curved = Color.tonalScale(base, { baseStep: 950, curve: 2 }),
+			eased = Color.tonalScale(base, { baseStep: 950, curve: t => t * t })
+		
+		expect(curved[500].oklch.l).toBeGreaterThan(linear[500].oklch.l)
+		expect(eased[500].oklch.l).toBeCloseTo(curved[500].oklch.l, 2)
+	})
+})